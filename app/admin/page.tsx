@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input, StatusBadge } from "../components/design-system";
+import type { CsvImportReport } from "../lib/csvImport";
+import type { CatalogMergeResult } from "../lib/catalogStore";
+
+/**
+ * Admin Page
+ *
+ * CSV import for sourced listings:
+ * - Choose a CSV file, preview the per-row validation report (dry run)
+ * - Import valid rows into the persisted catalog
+ * - Sends the import token when the server has IMPORT_TOKEN set
+ */
+
+interface ImportResponse {
+  report: CsvImportReport;
+  merge: CatalogMergeResult | null;
+  error?: string;
+}
+
+const EXPECTED_COLUMNS =
+  "id, title, company, location, mode, experience, skills, niceToHaveSkills, source, postedAt, expiresAt, salaryRange, applyUrl, description";
+
+async function postCsv(csv: string, dryRun: boolean, token: string): Promise<ImportResponse> {
+  const response = await fetch(`/api/jobs/import${dryRun ? "?dryRun=1" : ""}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/csv",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: csv,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Import failed (${response.status})`);
+  }
+  return data;
+}
+
+export default function AdminPage() {
+  const [token, setToken] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [preview, setPreview] = useState<CsvImportReport | null>(null);
+  const [mergeResult, setMergeResult] = useState<CatalogMergeResult | null>(null);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setMergeResult(null);
+    setError("");
+    setIsBusy(true);
+    try {
+      const text = await file.text();
+      setCsvText(text);
+      const { report } = await postCsv(text, true, token);
+      setPreview(report);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : "Could not read file");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    setError("");
+    try {
+      const { report, merge } = await postCsv(csvText, false, token);
+      setPreview(report);
+      setMergeResult(merge);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-[1200px] mx-auto px-24 py-40">
+      <div className="max-w-[720px]">
+        <h1 className="font-serif text-[2.5rem] leading-[1.2] text-[#111111] mb-16">
+          Admin
+        </h1>
+        <p className="text-base text-[#6B6B6B] leading-relaxed mb-40">
+          Import sourced listings from a spreadsheet export. Invalid rows are reported and skipped.
+        </p>
+
+        <div className="space-y-24">
+          <Card>
+            <CardHeader>
+              <CardTitle>CSV Import</CardTitle>
+              <CardDescription>
+                Expected columns: {EXPECTED_COLUMNS}. Skills may be separated by commas, semicolons or pipes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="mb-16">
+                <Input
+                  type="password"
+                  label="Import token"
+                  placeholder="Not needed in development"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={isBusy}
+                className="block w-full text-sm text-[#6B6B6B] file:mr-16 file:px-16 file:py-8 file:rounded-[6px] file:border file:border-[#D4D2CC] file:bg-white file:text-sm file:text-[#111111] hover:file:bg-[#F7F6F3]"
+              />
+              {error && <p className="mt-16 text-sm text-[#8B0000]">{error}</p>}
+            </CardContent>
+          </Card>
+
+          {preview && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Validation Report</CardTitle>
+                <CardDescription>{fileName}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-12 mb-24">
+                  <StatusBadge status="not-started">{preview.rowCount} rows</StatusBadge>
+                  <StatusBadge status="success">{preview.jobs.length} valid</StatusBadge>
+                  {preview.errors.length > 0 && (
+                    <StatusBadge status="error">{preview.errors.length} errors</StatusBadge>
+                  )}
+                </div>
+
+                {preview.errors.length > 0 && (
+                  <div className="border border-[#D4D2CC] rounded-[6px] divide-y divide-[#E8E6E1] mb-24 max-h-[320px] overflow-y-auto">
+                    {preview.errors.map((rowError, index) => (
+                      <div key={index} className="px-16 py-12 flex gap-16 text-sm">
+                        <span className="text-[#6B6B6B] whitespace-nowrap">Row {rowError.row}</span>
+                        {rowError.field && (
+                          <span className="font-medium text-[#111111]">{rowError.field}</span>
+                        )}
+                        <span className="text-[#8B0000]">{rowError.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {mergeResult ? (
+                  <p className="text-sm text-[#5A7D5A]">
+                    Imported: {mergeResult.added} added, {mergeResult.updated} updated
+                    {mergeResult.skipped.length > 0 && `, ${mergeResult.skipped.length} skipped (id used by a built-in listing)`}.
+                  </p>
+                ) : (
+                  <Button
+                    variant="primary"
+                    onClick={handleImport}
+                    disabled={isBusy || preview.jobs.length === 0}
+                  >
+                    {isBusy ? "Importing..." : `Import ${preview.jobs.length} valid row${preview.jobs.length !== 1 ? "s" : ""}`}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
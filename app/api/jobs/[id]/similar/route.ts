@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getListingIds } from "../../../../data/jobs";
+import { loadCatalog } from "../../../../lib/catalogStore";
+import { getSimilarJobs } from "../../../../lib/similarJobs";
+
+/**
+ * Similar Jobs API (/api/jobs/<id>/similar)
+ *
+ * GET the roles most like one listing (the id of any merged listing works),
+ * from the catalog on disk; see app/lib/similarJobs.ts.
+ * Unknown ids get a 404.
+ */
+
+interface SimilarJobsContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: SimilarJobsContext) {
+  const { id } = await params;
+  const catalog = await loadCatalog();
+  const job = catalog.find((listing) => getListingIds(listing).includes(id));
+
+  if (!job) {
+    return NextResponse.json({ error: `No job with id "${id}"` }, { status: 404 });
+  }
+
+  return NextResponse.json({ suggestions: getSimilarJobs(job, catalog) });
+}
@@ -0,0 +1,57 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { importJobsFromCsv } from "../../../lib/csvImport";
+import { mergeIntoCatalog } from "../../../lib/catalogStore";
+
+/**
+ * CSV Import API (/api/jobs/import)
+ *
+ * POST the raw CSV text as the request body.
+ * Returns the per-row validation report; valid rows are merged into
+ * the persisted catalog unless ?dryRun=1 is set.
+ * When IMPORT_TOKEN is set, requests must send "Authorization: Bearer <token>";
+ * without it the route only answers in development.
+ */
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024;
+
+const TOO_LARGE = { error: "CSV file is larger than 2 MB" };
+
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.IMPORT_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === "development";
+  }
+  const sent = Buffer.from(request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Import token is missing or wrong" }, { status: 401 });
+  }
+
+  // Reject on the declared size before reading the body
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > MAX_CSV_BYTES) {
+    return NextResponse.json(TOO_LARGE, { status: 413 });
+  }
+
+  const text = await request.text();
+
+  // Chunked bodies declare no length
+  if (new TextEncoder().encode(text).length > MAX_CSV_BYTES) {
+    return NextResponse.json(TOO_LARGE, { status: 413 });
+  }
+
+  const report = importJobsFromCsv(text);
+  const dryRun = request.nextUrl.searchParams.get("dryRun") === "1";
+
+  if (dryRun || report.jobs.length === 0) {
+    return NextResponse.json({ report, merge: null });
+  }
+
+  const merge = await mergeIntoCatalog(report.jobs);
+  return NextResponse.json({ report, merge });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCatalog } from "../../lib/catalogStore";
+import { parseJobQuery, queryJobs } from "../../lib/jobQuery";
+import { getActiveJobs } from "../../lib/jobDates";
+import { dashboardRequestSchema, queryDashboard } from "../../lib/dashboardQuery";
+import { validate, formatIssues } from "../../lib/validation";
+
+/**
+ * Jobs API (/api/jobs)
+ *
+ * GET with the same parameters the FilterBar exposes:
+ * keyword, location, mode, experience, source, sort
+ * plus page (1-based) and pageSize (max 100).
+ * Expired listings are left out, as on the dashboard.
+ *
+ * Match scores depend on preferences stored in the browser, so the
+ * "match-score" sort keeps catalog order here.
+ *
+ * POST is the dashboard's query: a JSON DashboardRequest carrying the
+ * filters and page plus the browser-held preferences, learned model and
+ * statuses, answered with one scored page (see app/lib/dashboardQuery.ts).
+ */
+
+export async function GET(request: NextRequest) {
+  const { query, error } = parseJobQuery(request.nextUrl.searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  return NextResponse.json(queryJobs(getActiveJobs(await loadCatalog()), query));
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const { value, issues } = validate(dashboardRequestSchema, body);
+  if (!value) {
+    return NextResponse.json({ error: formatIssues(issues) }, { status: 400 });
+  }
+
+  return NextResponse.json(queryDashboard(await loadCatalog(), value));
+}
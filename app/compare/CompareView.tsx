@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Job } from "../data/jobs";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, EmptyState } from "../components/design-system";
+import { cn } from "@/lib/utils";
+import { DEFAULT_PREFERENCES, Preferences, getMatchScoreColor, loadPreferences } from "../lib/matchScore";
+import { DEFAULT_SCORER_ID, listScorers, getScorer, rankJobs } from "../lib/scorers";
+import { LearnedModel, loadLearnedModel } from "../lib/feedback";
+import { getActiveJobs } from "../lib/jobDates";
+import { useIsClient } from "../lib/useIsClient";
+
+/**
+ * Compare Scorers View
+ *
+ * Ranks the active catalog (read from disk by app/compare/page.tsx) under
+ * two scorers side by side, with your saved preferences and feedback:
+ * - each job's rank and score under both, and how far it moved (▲ / ▼)
+ * - how many of the top 10 the two scorers agree on
+ * Lets the team evaluate a scorer before switching to it in Settings.
+ */
+
+interface CompareViewProps {
+  catalog: Job[];
+}
+
+const LIMIT_OPTIONS = [10, 25, 50];
+
+/**
+ * Every visible job ranked under the candidate scorer, with its rank and
+ * score under the baseline
+ */
+function compareRankings(
+  catalog: Job[],
+  preferences: Preferences,
+  model: LearnedModel,
+  baseline: string,
+  candidate: string
+) {
+  const activeJobs = getActiveJobs(catalog);
+  const before = rankJobs(activeJobs, catalog, preferences, model, baseline);
+  const beforeById = new Map(before.map(({ job, match }, index) => [job.id, { rank: index + 1, score: match.score }]));
+
+  return rankJobs(activeJobs, catalog, preferences, model, candidate).map(({ job, match }, index) => ({
+    job,
+    rank: index + 1,
+    score: match.score,
+    before: beforeById.get(job.id),
+  }));
+}
+
+export function CompareView({ catalog }: CompareViewProps) {
+  const isClient = useIsClient();
+  const scorers = listScorers();
+  const stored = useMemo(
+    () => (isClient ? { preferences: loadPreferences(), model: loadLearnedModel() } : null),
+    [isClient]
+  );
+  const preferences = stored?.preferences ?? DEFAULT_PREFERENCES;
+
+  // Until picked, compare the current scorer with the first other one
+  const [pickedBaseline, setBaseline] = useState<string | null>(null);
+  const [pickedCandidate, setCandidate] = useState<string | null>(null);
+  const [limit, setLimit] = useState(LIMIT_OPTIONS[1]);
+  const baseline = pickedBaseline ?? getScorer(preferences.scorerId).id;
+  const candidate =
+    pickedCandidate ?? scorers.find((scorer) => scorer.id !== baseline)?.id ?? DEFAULT_SCORER_ID;
+
+  const rows = stored?.preferences
+    ? compareRankings(catalog, stored.preferences, stored.model, baseline, candidate)
+    : [];
+
+  const topOverlap = rows.slice(0, 10).filter((row) => row.before && row.before.rank <= 10).length;
+
+  const scorerSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-[#111111] mb-8">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-16 py-12 text-base text-[#111111] bg-white border border-[#D4D2CC] rounded-[6px] transition-all duration-150 focus:outline-none focus:border-[#8B0000]"
+      >
+        {scorers.map((scorer) => (
+          <option key={scorer.id} value={scorer.id}>
+            {scorer.name}
+            {scorer.id === preferences.scorerId ? " (current)" : ""}
+          </option>
+        ))}
+      </select>
+      <p className="mt-8 text-xs text-[#6B6B6B]">{getScorer(value).description}</p>
+    </div>
+  );
+
+  return (
+    <div className="max-w-[1200px] mx-auto px-24 py-40">
+      <div className="mb-40">
+        <h1 className="font-serif text-[2.5rem] leading-[1.2] text-[#111111] mb-16">Compare Scorers</h1>
+        <p className="text-base text-[#6B6B6B] leading-relaxed max-w-[720px]">
+          See how the catalog ranks under two scoring strategies before switching. Uses your saved preferences.
+        </p>
+      </div>
+
+      {stored && !stored.preferences ? (
+        <EmptyState
+          title="No preferences yet"
+          description="Scorers rank jobs against your preferences. Set them in Settings first."
+        />
+      ) : (
+        <div className="space-y-24">
+          <Card>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-16">
+                {scorerSelect("compare-baseline", "Baseline", baseline, setBaseline)}
+                {scorerSelect("compare-candidate", "Compared with", candidate, setCandidate)}
+                <div>
+                  <label htmlFor="compare-limit" className="block text-sm font-medium text-[#111111] mb-8">
+                    Show top
+                  </label>
+                  <select
+                    id="compare-limit"
+                    value={limit}
+                    onChange={(e) => setLimit(parseInt(e.target.value))}
+                    className="w-full px-16 py-12 text-base text-[#111111] bg-white border border-[#D4D2CC] rounded-[6px] transition-all duration-150 focus:outline-none focus:border-[#8B0000]"
+                  >
+                    {LIMIT_OPTIONS.map((option) => (
+                      <option key={option} value={option}>
+                        {option} jobs
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Ranking</CardTitle>
+              <CardDescription>
+                {baseline === candidate ? (
+                  "Pick two different scorers to see what changes."
+                ) : (
+                  <>
+                    {topOverlap} of the top 10 are the same under both. Switch scorers in{" "}
+                    <Link href="/settings" className="text-[#8B0000] hover:underline">
+                      Settings
+                    </Link>
+                    .
+                  </>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-[48px_48px_1fr_64px_64px] gap-x-16 pb-8 border-b border-[#E8E6E1] text-xs text-[#6B6B6B] uppercase tracking-wide">
+                <span>Rank</span>
+                <span>Move</span>
+                <span>Job</span>
+                <span className="text-right">Baseline</span>
+                <span className="text-right">Compared</span>
+              </div>
+              <ol className="divide-y divide-[#E8E6E1]">
+                {rows.slice(0, limit).map((row) => {
+                  const movement = row.before ? row.before.rank - row.rank : 0;
+                  return (
+                    <li
+                      key={row.job.id}
+                      className="grid grid-cols-[48px_48px_1fr_64px_64px] gap-x-16 items-center py-12"
+                    >
+                      <span className="text-sm text-[#6B6B6B]">{row.rank}</span>
+                      <span
+                        title={row.before ? `#${row.before.rank} under ${getScorer(baseline).name}` : undefined}
+                        className={cn(
+                          "text-xs font-medium",
+                          movement > 0 ? "text-[#5A7D5A]" : movement < 0 ? "text-[#DC2626]" : "text-[#9B9B9B]"
+                        )}
+                      >
+                        {movement > 0 ? `▲${movement}` : movement < 0 ? `▼${-movement}` : "–"}
+                      </span>
+                      <div className="min-w-0">
+                        <Link
+                          href={`/jobs/${row.job.id}`}
+                          className="block text-sm text-[#111111] truncate hover:text-[#8B0000]"
+                        >
+                          {row.job.title}
+                        </Link>
+                        <p className="text-xs text-[#6B6B6B] truncate">{row.job.company}</p>
+                      </div>
+                      <span className="text-right text-xs text-[#6B6B6B]">{row.before?.score ?? "–"}%</span>
+                      <span
+                        className={cn(
+                          "justify-self-end px-8 py-4 text-xs font-medium rounded-[6px] whitespace-nowrap",
+                          getMatchScoreColor(row.score)
+                        )}
+                      >
+                        {row.score}%
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
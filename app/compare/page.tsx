@@ -0,0 +1,15 @@
+import { loadCatalog } from "../lib/catalogStore";
+import { CompareView } from "./CompareView";
+
+/**
+ * Compare Scorers Page
+ *
+ * Reads the catalog from disk on every request, so the rankings include
+ * listings imported since the last build, and hands it to CompareView.
+ */
+
+export const dynamic = "force-dynamic";
+
+export default async function CompareScorersPage() {
+  return <CompareView catalog={await loadCatalog()} />;
+}
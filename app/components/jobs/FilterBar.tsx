@@ -4,19 +4,24 @@ import React from "react";
 import { cn } from "@/lib/utils";
 
 import { JobStatus } from "./JobCard";
+import { getSource } from "@/app/lib/sources";
+import { SALARY_BANDS } from "@/app/lib/salary";
+import { formatExperience } from "@/app/lib/experience";
 
 /**
  * Filter Bar Component
  * 
  * Includes:
- * - Keyword search (title/company)
- * - Location dropdown
+ * - Keyword search (full-text: title, company, skills, description)
+ * - Location dropdown (regions such as Delhi NCR, then cities)
  * - Mode dropdown
  * - Experience dropdown
  * - Source dropdown
+ * - Salary band dropdown (annualized, so stipends compare with LPA roles)
  * - Status dropdown (Not Applied, Applied, Rejected, Selected)
- * - Sort dropdown (Latest default, Match Score)
+ * - Sort dropdown (Latest default: fresh good matches first once scored, Relevance, Match Score, Salary)
  * - Show only matches toggle
+ * - Meets my salary floor toggle (when a floor is set in Settings)
  */
 
 interface FilterBarProps {
@@ -26,29 +31,39 @@ interface FilterBarProps {
     mode: string;
     experience: string;
     source: string;
+    salary: string;
     status: JobStatus | "";
     sort: string;
   };
   onFilterChange: (key: string, value: string) => void;
   locations: string[];
+  regions?: string[];
   modes: string[];
   experiences: string[];
   sources: string[];
   showOnlyMatches?: boolean;
   onToggleMatches?: () => void;
   hasPreferences?: boolean;
+  meetsSalaryFloorOnly?: boolean;
+  onToggleSalaryFloor?: () => void;
+  // e.g. "₹6 LPA"; the toggle only shows when a floor is set
+  salaryFloorLabel?: string;
 }
 
 export function FilterBar({
   filters,
   onFilterChange,
   locations,
+  regions = [],
   modes,
   experiences,
   sources,
   showOnlyMatches,
   onToggleMatches,
   hasPreferences,
+  meetsSalaryFloorOnly,
+  onToggleSalaryFloor,
+  salaryFloorLabel,
 }: FilterBarProps) {
   const selectClassName = cn(
     "px-16 py-12 bg-white border border-[#D4D2CC] rounded-[6px] text-sm text-[#111111]",
@@ -66,7 +81,7 @@ export function FilterBar({
           </label>
           <input
             type="text"
-            placeholder="Title or company..."
+            placeholder="Title, company, skills..."
             value={filters.keyword}
             onChange={(e) => onFilterChange("keyword", e.target.value)}
             className={cn(selectClassName, "w-full")}
@@ -84,6 +99,15 @@ export function FilterBar({
             className={cn(selectClassName, "w-full")}
           >
             <option value="">All Locations</option>
+            {regions.length > 0 && (
+              <optgroup label="Regions">
+                {regions.map((region) => (
+                  <option key={region} value={region}>
+                    {region}
+                  </option>
+                ))}
+              </optgroup>
+            )}
             {locations.map((loc) => (
               <option key={loc} value={loc}>
                 {loc}
@@ -124,7 +148,7 @@ export function FilterBar({
             <option value="">All Levels</option>
             {experiences.map((exp) => (
               <option key={exp} value={exp}>
-                {exp} years
+                {formatExperience(exp)}
               </option>
             ))}
           </select>
@@ -143,7 +167,26 @@ export function FilterBar({
             <option value="">All Sources</option>
             {sources.map((source) => (
               <option key={source} value={source}>
-                {source}
+                {getSource(source).name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Salary */}
+        <div>
+          <label className="block text-xs text-[#6B6B6B] uppercase tracking-wide mb-8">
+            Salary
+          </label>
+          <select
+            value={filters.salary}
+            onChange={(e) => onFilterChange("salary", e.target.value)}
+            className={cn(selectClassName, "w-full")}
+          >
+            <option value="">Any Salary</option>
+            {SALARY_BANDS.map((band) => (
+              <option key={band.id} value={band.id}>
+                {band.label}
               </option>
             ))}
           </select>
@@ -178,6 +221,7 @@ export function FilterBar({
             className={cn(selectClassName, "w-full")}
           >
             <option value="latest">Latest</option>
+            <option value="relevance">Relevance</option>
             <option value="oldest">Oldest</option>
             <option value="match-score">Match Score</option>
             <option value="salary-high">Salary: High to Low</option>
@@ -186,9 +230,9 @@ export function FilterBar({
         </div>
       </div>
 
-      {/* Show Only Matches Toggle */}
+      {/* Show Only Matches / Salary Floor Toggles */}
       {hasPreferences && onToggleMatches && (
-        <div className="mt-24 pt-24 border-t border-[#E8E6E1]">
+        <div className="flex flex-col sm:flex-row gap-16 sm:gap-32 mt-24 pt-24 border-t border-[#E8E6E1]">
           <label className="flex items-center gap-12 cursor-pointer">
             <input
               type="checkbox"
@@ -200,6 +244,19 @@ export function FilterBar({
               Show only jobs above my threshold
             </span>
           </label>
+          {salaryFloorLabel && onToggleSalaryFloor && (
+            <label className="flex items-center gap-12 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={meetsSalaryFloorOnly}
+                onChange={onToggleSalaryFloor}
+                className="w-20 h-20 accent-[#8B0000] cursor-pointer"
+              />
+              <span className="text-sm text-[#111111]">
+                Meets my salary floor ({salaryFloorLabel})
+              </span>
+            </label>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,34 @@
+"use client";
+
+import React from "react";
+import { highlightMatches } from "@/app/lib/searchIndex";
+
+/**
+ * Highlight Component
+ *
+ * Renders text with the words matched by a search query marked.
+ * Without a query the text is rendered as-is.
+ */
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+export function Highlight({ text, query }: HighlightProps) {
+  if (!query?.trim()) return <>{text}</>;
+
+  return (
+    <>
+      {highlightMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-[#8B0000] bg-opacity-10 text-inherit rounded-[2px] px-2">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -4,13 +4,28 @@ import React, { useState, useRef, useEffect } from "react";
 import { Job } from "@/app/data/jobs";
 import { Button } from "../design-system";
 import { cn } from "@/lib/utils";
-import { getMatchScoreColor } from "@/app/lib/matchScore";
+import { getMatchScoreColor, SkillCoverage } from "@/app/lib/matchScore";
+import { getSource } from "@/app/lib/sources";
+import { getAlsoOnSourceNames } from "@/app/lib/dedupe";
+import { formatJobSalary } from "@/app/lib/salary";
+import { formatExperience } from "@/app/lib/experience";
+import { formatPostedTime, isExpired } from "@/app/lib/jobDates";
+import { highlightMatches } from "@/app/lib/searchIndex";
+import { Vote } from "@/app/lib/feedback";
+import { Highlight } from "./Highlight";
+import { VoteButtons } from "./VoteButtons";
 
 /**
  * Job Card Component
  * 
  * Displays job information with View, Save, and Apply buttons.
- * Shows match score badge when provided.
+ * Shows match score badge when provided, and "4/5 skills" (required skills
+ * the user has) when skill coverage is provided.
+ * Merged cross-source listings show the other boards ("also on Naukri").
+ * Expired listings (only reachable from Saved) are marked "Expired".
+ * Jobs that break the user's exclusion rules are marked "Excluded".
+ * With onVote, 👍 / 👎 buttons feed the learned part of the match score.
+ * Words matched by the search query are highlighted; matching skills come first.
  * Includes status tracking: Not Applied, Applied, Rejected, Selected.
  * Follows design system: off-white background, deep red accent, subtle borders.
  */
@@ -24,16 +39,16 @@ interface JobCardProps {
   onSave: (jobId: string) => void;
   onApply: (url: string) => void;
   matchScore?: number;
+  skillCoverage?: SkillCoverage;
+  // Broken exclusion rules, formatted ("Company: Infosys")
+  exclusions?: string[];
   status?: JobStatus;
   onStatusChange?: (jobId: string, status: JobStatus) => void;
+  highlight?: string;
+  vote?: Vote;
+  onVote?: (jobId: string, vote: Vote | null) => void;
 }
 
-const sourceColors = {
-  LinkedIn: "bg-[#0077B5] bg-opacity-10 text-[#0077B5]",
-  Naukri: "bg-[#FF6B6B] bg-opacity-10 text-[#FF6B6B]",
-  Indeed: "bg-[#2557A7] bg-opacity-10 text-[#2557A7]",
-};
-
 const statusColors: Record<JobStatus, string> = {
   "Not Applied": "bg-[#E8E6E1] text-[#6B6B6B]",
   "Applied": "bg-[#2563EB] bg-opacity-10 text-[#2563EB]",
@@ -50,17 +65,26 @@ export function JobCard({
   onSave, 
   onApply, 
   matchScore,
+  skillCoverage,
+  exclusions = [],
   status = "Not Applied",
   onStatusChange,
+  highlight,
+  vote,
+  onVote,
 }: JobCardProps) {
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-
-  const formatPostedTime = (days: number) => {
-    if (days === 0) return "Today";
-    if (days === 1) return "1 day ago";
-    return `${days} days ago`;
-  };
+  const source = getSource(job.source);
+  const alsoOn = getAlsoOnSourceNames(job);
+  const expired = isExpired(job);
+  const skills = highlight?.trim()
+    ? [...job.skills].sort(
+        (a, b) =>
+          Number(highlightMatches(b, highlight).some((s) => s.match)) -
+          Number(highlightMatches(a, highlight).some((s) => s.match))
+      )
+    : job.skills;
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -85,8 +109,8 @@ export function JobCard({
       {/* Header: Title, Company & Match Score */}
       <div className="flex items-start justify-between gap-16 mb-16">
         <div className="flex-1">
-          <h3 className="font-serif text-xl text-[#111111] mb-8">{job.title}</h3>
-          <p className="text-base text-[#6B6B6B]">{job.company}</p>
+          <h3 className="font-serif text-xl text-[#111111] mb-8"><Highlight text={job.title} query={highlight} /></h3>
+          <p className="text-base text-[#6B6B6B]"><Highlight text={job.company} query={highlight} /></p>
         </div>
         {matchScore !== undefined && (
           <span className={cn("px-12 py-6 text-sm font-medium rounded-[6px] whitespace-nowrap", getMatchScoreColor(matchScore))}>
@@ -101,22 +125,22 @@ export function JobCard({
         <span className="text-sm text-[#6B6B6B]">•</span>
         <span className="text-sm text-[#6B6B6B]">{job.mode}</span>
         <span className="text-sm text-[#6B6B6B]">•</span>
-        <span className="text-sm text-[#6B6B6B]">{job.experience} years</span>
+        <span className="text-sm text-[#6B6B6B]">{formatExperience(job.experience)}</span>
       </div>
 
       {/* Salary */}
       <div className="mb-16">
-        <span className="text-sm font-medium text-[#111111]">{job.salaryRange}</span>
+        <span className="text-sm font-medium text-[#111111]">{formatJobSalary(job)}</span>
       </div>
 
       {/* Skills */}
       <div className="flex flex-wrap gap-8 mb-24">
-        {job.skills.slice(0, 3).map((skill) => (
+        {skills.slice(0, 3).map((skill) => (
           <span
             key={skill}
             className="px-12 py-6 text-xs bg-[#F7F6F3] text-[#6B6B6B] rounded-[6px]"
           >
-            {skill}
+            <Highlight text={skill} query={highlight} />
           </span>
         ))}
         {job.skills.length > 3 && (
@@ -124,6 +148,23 @@ export function JobCard({
             +{job.skills.length - 3} more
           </span>
         )}
+        {skillCoverage && skillCoverage.required.length > 0 && (
+          <span
+            title={
+              skillCoverage.niceToHave.length > 0
+                ? `${skillCoverage.niceToHaveMatched.length}/${skillCoverage.niceToHave.length} nice-to-have skills`
+                : undefined
+            }
+            className={cn(
+              "ml-auto px-12 py-6 text-xs font-medium rounded-[6px] whitespace-nowrap",
+              skillCoverage.requiredMatched.length === skillCoverage.required.length
+                ? "bg-[#5A7D5A] bg-opacity-15 text-[#5A7D5A]"
+                : "text-[#6B6B6B] border border-[#D4D2CC]"
+            )}
+          >
+            {skillCoverage.requiredMatched.length}/{skillCoverage.required.length} skills
+          </span>
+        )}
       </div>
 
       {/* Status Selector */}
@@ -169,13 +210,32 @@ export function JobCard({
       {/* Footer: Source, Posted Time, Actions */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-16 pt-16 border-t border-[#E8E6E1]">
         <div className="flex items-center gap-16">
-          <span className={cn("px-12 py-6 text-xs font-medium rounded-[6px]", sourceColors[job.source])}>
-            {job.source}
+          <span className={cn("px-12 py-6 text-xs font-medium rounded-[6px]", source.badgeClassName)}>
+            {source.name}
           </span>
-          <span className="text-sm text-[#6B6B6B]">{formatPostedTime(job.postedDaysAgo)}</span>
+          {alsoOn.length > 0 && (
+            <span className="text-xs text-[#6B6B6B]">also on {alsoOn.join(", ")}</span>
+          )}
+          <span className="text-sm text-[#6B6B6B]" suppressHydrationWarning>
+            {formatPostedTime(job)}
+          </span>
+          {expired && (
+            <span className="px-8 py-4 text-xs font-medium rounded-[6px] bg-[#E8E6E1] text-[#6B6B6B] uppercase tracking-wide">
+              Expired
+            </span>
+          )}
+          {exclusions.length > 0 && (
+            <span
+              title={exclusions.join(" · ")}
+              className="px-8 py-4 text-xs font-medium rounded-[6px] bg-[#DC2626] bg-opacity-10 text-[#DC2626] uppercase tracking-wide"
+            >
+              Excluded
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-12">
+          {onVote && <VoteButtons vote={vote} onVote={(next) => onVote(job.id, next)} />}
           <Button variant="secondary" size="small" onClick={() => onView(job)}>
             View
           </Button>
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Job } from "@/app/data/jobs";
+import { Button, Card, CardHeader, CardTitle, CardDescription } from "../design-system";
+import { cn } from "@/lib/utils";
+import { JobStatus } from "./JobCard";
+import { MatchBreakdown } from "./MatchBreakdown";
+import { VoteButtons } from "./VoteButtons";
+import { loadPreferences, getMatchScoreColor } from "@/app/lib/matchScore";
+import { scoreJob } from "@/app/lib/scorers";
+import { JOB_STATUSES, loadJobStatuses, saveJobStatus, getJobStatusHistory } from "@/app/lib/jobStatus";
+import { isJobSaved, loadSavedJobIds, storeSavedJobIds, toggleSavedJob } from "@/app/lib/savedJobs";
+import { Vote, loadLearnedModel, setJobVote, recordJobSignal } from "@/app/lib/feedback";
+import { useIsClient } from "@/app/lib/useIsClient";
+
+/**
+ * Job Detail Panel
+ *
+ * The personal half of the /jobs/[id] page, read from localStorage:
+ * - Match score with its "why this matched / what's missing" breakdown
+ * - Status picker and this job's status history
+ * - Save, Apply and 👍 / 👎 actions, which the match score learns from
+ * The server renders the job itself; this panel fills in after hydration.
+ */
+
+interface JobDetailPanelProps {
+  job: Job;
+  // The catalog the match score is taken against
+  catalog: Job[];
+}
+
+function formatChangedAt(changedAt: string): string {
+  return new Date(changedAt).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function JobDetailPanel({ job, catalog }: JobDetailPanelProps) {
+  const isClient = useIsClient();
+  // Bumped after every write so the values below are re-read from storage
+  const [revision, setRevision] = useState(0);
+
+  const stored = useMemo(() => {
+    if (!isClient) return null;
+    return {
+      revision,
+      preferences: loadPreferences(),
+      status: loadJobStatuses()[job.id] ?? "Not Applied",
+      history: getJobStatusHistory(job.id),
+      isSaved: isJobSaved(job, loadSavedJobIds()),
+      learnedModel: loadLearnedModel(),
+    };
+  }, [isClient, job, revision]);
+
+  const match = stored?.preferences ? scoreJob(job, catalog, stored.preferences, stored.learnedModel) : undefined;
+
+  const handleStatusChange = (status: JobStatus) => {
+    saveJobStatus(job.id, status, job.title, job.company);
+    if (status === "Applied") recordJobSignal(job, "apply");
+    setRevision((value) => value + 1);
+  };
+
+  const handleToggleSave = () => {
+    storeSavedJobIds(toggleSavedJob(job, loadSavedJobIds()));
+    recordJobSignal(job, "save", stored?.isSaved);
+    setRevision((value) => value + 1);
+  };
+
+  const handleApply = () => {
+    recordJobSignal(job, "apply");
+    setRevision((value) => value + 1);
+    window.open(job.applyUrl, "_blank", "noopener,noreferrer");
+  };
+
+  const handleVote = (vote: Vote | null) => {
+    setJobVote(job, vote);
+    setRevision((value) => value + 1);
+  };
+
+  return (
+    <div className="space-y-24">
+      {/* Actions */}
+      <div className="flex items-center gap-12">
+        <Button variant="secondary" onClick={handleToggleSave} disabled={!stored}>
+          {stored?.isSaved ? "Saved" : "Save Job"}
+        </Button>
+        <Button variant="primary" onClick={handleApply}>
+          Apply Now
+        </Button>
+        {stored && <VoteButtons vote={stored.learnedModel.votes[job.id]} onVote={handleVote} />}
+      </div>
+
+      {/* Match Score */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-16">
+            <CardTitle>Match Score</CardTitle>
+            {match && (
+              <span
+                className={cn(
+                  "px-12 py-6 text-sm font-medium rounded-[6px] whitespace-nowrap",
+                  getMatchScoreColor(match.score)
+                )}
+              >
+                {match.score}% match
+              </span>
+            )}
+          </div>
+          {stored && !stored.preferences && (
+            <CardDescription>
+              <Link href="/settings" className="text-[#8B0000] hover:underline">
+                Set your preferences
+              </Link>{" "}
+              to see how well this job matches you.
+            </CardDescription>
+          )}
+        </CardHeader>
+        {match && <MatchBreakdown match={match} stacked />}
+      </Card>
+
+      {/* Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Status</CardTitle>
+        </CardHeader>
+        <div className="flex flex-wrap gap-8 mb-16">
+          {JOB_STATUSES.map((status) => (
+            <Button
+              key={status}
+              size="small"
+              variant={stored?.status === status ? "primary" : "secondary"}
+              onClick={() => handleStatusChange(status)}
+              disabled={!stored}
+            >
+              {status}
+            </Button>
+          ))}
+        </div>
+        {stored && stored.history.length > 0 ? (
+          <ul className="space-y-8">
+            {stored.history.map((entry) => (
+              <li key={entry.changedAt} className="flex items-center justify-between text-sm">
+                <span className="text-[#111111]">{entry.status}</span>
+                <span className="text-[#6B6B6B]">{formatChangedAt(entry.changedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-[#6B6B6B]">No status changes yet.</p>
+        )}
+      </Card>
+    </div>
+  );
+}
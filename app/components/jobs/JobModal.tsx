@@ -1,13 +1,29 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
 import { Job } from "@/app/data/jobs";
 import { Button } from "../design-system";
+import { getSource } from "@/app/lib/sources";
+import { formatJobSalary } from "@/app/lib/salary";
+import { formatExperience } from "@/app/lib/experience";
+import { MatchScoreResult } from "@/app/lib/matchScore";
+import { Vote } from "@/app/lib/feedback";
+import { Highlight } from "./Highlight";
+import { VoteButtons } from "./VoteButtons";
+import { SimilarJobs } from "./SimilarJobs";
+import { MatchBreakdown } from "./MatchBreakdown";
 
 /**
  * Job Modal Component
  * 
  * Displays full job description and skills in a modal overlay.
+ * Merged listings link to the same role on the other boards.
+ * Links to the shareable /jobs/<id> page for status and score details.
+ * Words matched by the search query are highlighted.
+ * With a match result, explains the score ("why this matched / what's missing").
+ * With onVote, 👍 / 👎 buttons feed the learned part of the match score.
+ * Ends with "Similar roles"; with onSelectJob they open in this modal.
  * Follows design system: off-white background, deep red accent, no heavy shadows.
  */
 
@@ -18,11 +34,32 @@ interface JobModalProps {
   onSave: (jobId: string) => void;
   onApply: (url: string) => void;
   isSaved: boolean;
+  highlight?: string;
+  match?: MatchScoreResult;
+  vote?: Vote;
+  onVote?: (jobId: string, vote: Vote | null) => void;
+  onSelectJob?: (job: Job) => void;
 }
 
-export function JobModal({ job, isOpen, onClose, onSave, onApply, isSaved }: JobModalProps) {
+export function JobModal({
+  job,
+  isOpen,
+  onClose,
+  onSave,
+  onApply,
+  isSaved,
+  highlight,
+  match,
+  vote,
+  onVote,
+  onSelectJob,
+}: JobModalProps) {
   if (!isOpen || !job) return null;
 
+  const alternateListings = (job.alternateListings ?? []).filter(
+    (listing) => listing.source !== job.source
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-24">
       {/* Backdrop */}
@@ -33,12 +70,15 @@ export function JobModal({ job, isOpen, onClose, onSave, onApply, isSaved }: Job
       />
 
       {/* Modal Content */}
-      <div className="relative bg-white rounded-[6px] w-full max-w-[640px] max-h-[90vh] overflow-y-auto">
+      <div key={job.id} className="relative bg-white rounded-[6px] w-full max-w-[640px] max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="sticky top-0 bg-white border-b border-[#D4D2CC] px-32 py-24 flex items-start justify-between">
           <div>
-            <h2 className="font-serif text-2xl text-[#111111] mb-8">{job.title}</h2>
-            <p className="text-base text-[#6B6B6B]">{job.company}</p>
+            <h2 className="font-serif text-2xl text-[#111111] mb-8"><Highlight text={job.title} query={highlight} /></h2>
+            <p className="text-base text-[#6B6B6B]"><Highlight text={job.company} query={highlight} /></p>
+            <Link href={`/jobs/${job.id}`} className="inline-block mt-8 text-sm text-[#8B0000] hover:underline">
+              Open full page →
+            </Link>
           </div>
           <button
             onClick={onClose}
@@ -66,22 +106,52 @@ export function JobModal({ job, isOpen, onClose, onSave, onApply, isSaved }: Job
             </div>
             <div>
               <span className="text-xs text-[#6B6B6B] uppercase tracking-wide">Experience</span>
-              <p className="text-sm text-[#111111]">{job.experience} years</p>
+              <p className="text-sm text-[#111111]">{formatExperience(job.experience)}</p>
             </div>
             <div>
               <span className="text-xs text-[#6B6B6B] uppercase tracking-wide">Salary</span>
-              <p className="text-sm text-[#111111]">{job.salaryRange}</p>
+              <p className="text-sm text-[#111111]">{formatJobSalary(job)}</p>
             </div>
             <div>
               <span className="text-xs text-[#6B6B6B] uppercase tracking-wide">Source</span>
-              <p className="text-sm text-[#111111]">{job.source}</p>
+              <p className="text-sm text-[#111111]">{getSource(job.source).name}</p>
             </div>
           </div>
 
+          {/* Other boards this role is posted on */}
+          {alternateListings.length > 0 && (
+            <div className="px-16 py-12 bg-[#F7F6F3] rounded-[6px] text-sm text-[#6B6B6B]">
+              Also on{" "}
+              {alternateListings.map((listing, index) => (
+                <React.Fragment key={listing.id}>
+                  {index > 0 && ", "}
+                  <a
+                    href={listing.applyUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#8B0000] hover:underline"
+                  >
+                    {getSource(listing.source).name}
+                  </a>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          {/* Match Breakdown */}
+          {match && (
+            <div>
+              <h3 className="font-serif text-lg text-[#111111] mb-12">Your Match</h3>
+              <MatchBreakdown match={match} />
+            </div>
+          )}
+
           {/* Description */}
           <div>
             <h3 className="font-serif text-lg text-[#111111] mb-12">Description</h3>
-            <p className="text-base text-[#6B6B6B] leading-relaxed">{job.description}</p>
+            <p className="text-base text-[#6B6B6B] leading-relaxed">
+              <Highlight text={job.description} query={highlight} />
+            </p>
           </div>
 
           {/* Skills */}
@@ -93,15 +163,42 @@ export function JobModal({ job, isOpen, onClose, onSave, onApply, isSaved }: Job
                   key={skill}
                   className="px-16 py-8 text-sm bg-[#F7F6F3] text-[#111111] rounded-[6px]"
                 >
-                  {skill}
+                  <Highlight text={skill} query={highlight} />
                 </span>
               ))}
             </div>
           </div>
+
+          {job.niceToHaveSkills && job.niceToHaveSkills.length > 0 && (
+            <div>
+              <h3 className="font-serif text-lg text-[#111111] mb-12">Nice to Have</h3>
+              <div className="flex flex-wrap gap-8">
+                {job.niceToHaveSkills.map((skill) => (
+                  <span
+                    key={skill}
+                    className="px-16 py-8 text-sm border border-[#D4D2CC] text-[#6B6B6B] rounded-[6px]"
+                  >
+                    <Highlight text={skill} query={highlight} />
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Similar Roles */}
+          <div>
+            <h3 className="font-serif text-lg text-[#111111] mb-12">Similar Roles</h3>
+            <SimilarJobs job={job} onSelect={onSelectJob} />
+          </div>
         </div>
 
         {/* Footer */}
         <div className="sticky bottom-0 bg-white border-t border-[#D4D2CC] px-32 py-24 flex items-center justify-end gap-12">
+          {onVote && (
+            <div className="mr-auto">
+              <VoteButtons vote={vote} onVote={(next) => onVote(job.id, next)} />
+            </div>
+          )}
           <Button variant="secondary" onClick={() => onSave(job.id)}>
             {isSaved ? "Saved" : "Save Job"}
           </Button>
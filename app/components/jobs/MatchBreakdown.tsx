@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { MatchScoreResult } from "@/app/lib/matchScore";
+import { formatExclusionMatch } from "@/app/lib/exclusions";
+import { cn } from "@/lib/utils";
+
+/**
+ * Match Breakdown Component
+ *
+ * Explains a match score in two lists:
+ * - Why this matched: rules that fired, with their points and what matched
+ * - What's missing: rules that did not fire and the points they would add
+ * Rules weighted 0 in Settings are left out. Broken exclusion rules are listed
+ * above both, with the penalty they cost, and so is what the score learned
+ * from the user's feedback. Scorers without rules (see app/lib/scorers.ts)
+ * show their summary instead of the two lists.
+ */
+
+interface MatchBreakdownProps {
+  match: MatchScoreResult;
+  showSettingsLink?: boolean;
+  // Stack the two lists (for narrow columns)
+  stacked?: boolean;
+}
+
+export function MatchBreakdown({ match, showSettingsLink = true, stacked = false }: MatchBreakdownProps) {
+  const weighted = match.rules.filter((rule) => rule.maxPoints > 0);
+  const fired = weighted.filter((rule) => rule.fired);
+  const missing = weighted.filter((rule) => !rule.fired || rule.points < rule.maxPoints);
+
+  return (
+    <div className="space-y-24">
+      {match.exclusions.length > 0 && (
+        <div className="px-16 py-12 border border-[#DC2626] border-opacity-30 bg-[#DC2626] bg-opacity-5 rounded-[6px]">
+          <div className="flex items-center justify-between gap-8 text-sm">
+            <span className="text-[#DC2626] font-medium">Breaks your exclusion rules</span>
+            <span className="text-[#DC2626] whitespace-nowrap">
+              {match.hidden ? "hidden" : `−${match.penalty}`}
+            </span>
+          </div>
+          <p className="text-xs text-[#6B6B6B]">{match.exclusions.map(formatExclusionMatch).join(" · ")}</p>
+        </div>
+      )}
+      {match.learned.reasons.length > 0 && (
+        <div className="px-16 py-12 border border-[#D4D2CC] bg-[#F7F6F3] rounded-[6px]">
+          <div className="flex items-center justify-between gap-8 text-sm">
+            <span className="text-[#111111] font-medium">Learned from your feedback</span>
+            <span
+              className={cn(
+                "font-medium whitespace-nowrap",
+                match.learned.points > 0 ? "text-[#5A7D5A]" : match.learned.points < 0 ? "text-[#DC2626]" : "text-[#9B9B9B]"
+              )}
+            >
+              {match.learned.points > 0 ? "+" : match.learned.points < 0 ? "−" : "±"}
+              {Math.abs(match.learned.points)}
+            </span>
+          </div>
+          <p className="text-xs text-[#6B6B6B]">
+            {match.learned.reasons
+              .slice(0, 4)
+              .map((reason) => `${reason.label} ${reason.points > 0 ? "+" : "−"}${Math.abs(reason.points)}`)
+              .join(" · ")}
+          </p>
+        </div>
+      )}
+      {weighted.length === 0 && match.summary ? (
+        <div>
+          <h4 className="text-xs text-[#6B6B6B] uppercase tracking-wide mb-8">Why this score</h4>
+          <p className="text-sm text-[#111111]">{match.summary}</p>
+          {showSettingsLink && (
+            <Link href="/settings" className="inline-block mt-12 text-xs text-[#8B0000] hover:underline">
+              Change scorer →
+            </Link>
+          )}
+        </div>
+      ) : (
+        <div className={stacked ? "grid grid-cols-1 gap-24" : "grid grid-cols-1 sm:grid-cols-2 gap-24"}>
+          <div>
+            <h4 className="text-xs text-[#6B6B6B] uppercase tracking-wide mb-8">Why this matched</h4>
+            {fired.length === 0 ? (
+              <p className="text-sm text-[#9B9B9B]">No rule matched yet.</p>
+            ) : (
+              <ul className="space-y-8">
+                {fired.map((rule) => (
+                  <li key={rule.id} className="text-sm">
+                    <div className="flex items-center justify-between gap-8">
+                      <span className="text-[#111111]">{rule.label}</span>
+                      <span className="text-[#5A7D5A] font-medium whitespace-nowrap">+{rule.points}</span>
+                    </div>
+                    <p className="text-xs text-[#6B6B6B]">{rule.detail}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-xs text-[#6B6B6B] uppercase tracking-wide mb-8">What&apos;s missing</h4>
+            {missing.length === 0 ? (
+              <p className="text-sm text-[#9B9B9B]">Nothing: every rule matched.</p>
+            ) : (
+              <ul className="space-y-8">
+                {missing.map((rule) => (
+                  <li key={rule.id} className="text-sm">
+                    <div className="flex items-center justify-between gap-8">
+                      <span className="text-[#6B6B6B]">{rule.label}</span>
+                      <span className="text-[#9B9B9B] whitespace-nowrap">+{rule.maxPoints - rule.points} possible</span>
+                    </div>
+                    <p className="text-xs text-[#9B9B9B]">{rule.detail}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {showSettingsLink && missing.length > 0 && (
+              <Link href="/settings" className="inline-block mt-12 text-xs text-[#8B0000] hover:underline">
+                Adjust preferences →
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
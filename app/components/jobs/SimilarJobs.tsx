@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Job } from "@/app/data/jobs";
+import { SimilarJob } from "@/app/lib/similarJobs";
+import { formatExperience } from "@/app/lib/experience";
+
+/**
+ * Similar Roles Component
+ *
+ * The 5 listings most like a job (see app/lib/similarJobs.ts), each with a
+ * one-line reason. With onSelect a suggestion opens in place (the modal);
+ * otherwise it links to its /jobs/<id> page.
+ * Suggestions come from the catalog on disk: precomputed by the server page,
+ * or fetched from /api/jobs/<id>/similar.
+ */
+
+interface SimilarJobsProps {
+  job: Job;
+  // Precomputed by a server page; fetched otherwise
+  suggestions?: SimilarJob[];
+  onSelect?: (job: Job) => void;
+}
+
+interface FetchedSuggestions {
+  jobId: string;
+  suggestions?: SimilarJob[];
+  error?: string;
+}
+
+async function fetchSimilarJobs(jobId: string, signal: AbortSignal): Promise<SimilarJob[]> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/similar`, { signal });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with ${response.status}`);
+  }
+  return data.suggestions;
+}
+
+export function SimilarJobs({ job, suggestions, onSelect }: SimilarJobsProps) {
+  const [fetched, setFetched] = useState<FetchedSuggestions | null>(null);
+
+  useEffect(() => {
+    if (suggestions) return;
+    const controller = new AbortController();
+    fetchSimilarJobs(job.id, controller.signal)
+      .then((result) => setFetched({ jobId: job.id, suggestions: result }))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setFetched({ jobId: job.id, error: err instanceof Error ? err.message : "Could not load similar roles" });
+      });
+    return () => controller.abort();
+  }, [job.id, suggestions]);
+
+  // A response for the previous job is stale
+  const current = fetched?.jobId === job.id ? fetched : null;
+  const similar = suggestions ?? current?.suggestions;
+
+  if (current?.error) {
+    return <p className="text-sm text-[#8B0000]">{current.error}</p>;
+  }
+  if (!similar) {
+    return <p className="text-sm text-[#9B9B9B]">Finding similar roles…</p>;
+  }
+  if (similar.length === 0) {
+    return <p className="text-sm text-[#9B9B9B]">No similar roles right now.</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-[#E8E6E1] border border-[#E8E6E1] rounded-[6px]">
+      {similar.map(({ job: other, reason }) => {
+        const content = (
+          <>
+            <span className="block text-sm text-[#111111] group-hover:text-[#8B0000]">
+              {other.title} <span className="text-[#6B6B6B]">· {other.company}</span>
+            </span>
+            <span className="block text-xs text-[#6B6B6B]">
+              {other.location} · {other.mode} · {formatExperience(other.experience)}
+            </span>
+            <span className="block mt-4 text-xs text-[#5A7D5A]">{reason}</span>
+          </>
+        );
+
+        return (
+          <li key={other.id}>
+            {onSelect ? (
+              <button
+                type="button"
+                onClick={() => onSelect(other)}
+                className="group w-full text-left px-16 py-12 hover:bg-[#F7F6F3] transition-colors duration-150"
+              >
+                {content}
+              </button>
+            ) : (
+              <Link
+                href={`/jobs/${other.id}`}
+                className="group block px-16 py-12 hover:bg-[#F7F6F3] transition-colors duration-150"
+              >
+                {content}
+              </Link>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
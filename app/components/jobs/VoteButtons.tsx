@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { Vote } from "@/app/lib/feedback";
+
+/**
+ * Vote Buttons Component
+ *
+ * 👍 / 👎 on a job; clicking the current vote again clears it.
+ * Votes teach the match score what the user likes (see app/lib/feedback.ts).
+ */
+
+interface VoteButtonsProps {
+  vote?: Vote;
+  onVote: (vote: Vote | null) => void;
+}
+
+const VOTES: { vote: Vote; icon: string; label: string; activeClassName: string }[] = [
+  { vote: "like", icon: "👍", label: "More like this", activeClassName: "bg-[#5A7D5A] bg-opacity-15 border-[#5A7D5A]" },
+  { vote: "dislike", icon: "👎", label: "Less like this", activeClassName: "bg-[#DC2626] bg-opacity-10 border-[#DC2626]" },
+];
+
+export function VoteButtons({ vote, onVote }: VoteButtonsProps) {
+  return (
+    <div className="flex items-center gap-4">
+      {VOTES.map((option) => (
+        <button
+          key={option.vote}
+          type="button"
+          onClick={() => onVote(vote === option.vote ? null : option.vote)}
+          aria-label={option.label}
+          aria-pressed={vote === option.vote}
+          title={option.label}
+          className={cn(
+            "px-8 py-4 text-sm border rounded-[6px] transition-colors duration-150",
+            vote === option.vote ? option.activeClassName : "border-[#D4D2CC] hover:bg-[#F7F6F3]"
+          )}
+        >
+          {option.icon}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,3 +1,8 @@
 export { JobCard, type JobStatus } from "./JobCard";
 export { JobModal } from "./JobModal";
 export { FilterBar } from "./FilterBar";
+export { JobDetailPanel } from "./JobDetailPanel";
+export { Highlight } from "./Highlight";
+export { MatchBreakdown } from "./MatchBreakdown";
+export { VoteButtons } from "./VoteButtons";
+export { SimilarJobs } from "./SimilarJobs";
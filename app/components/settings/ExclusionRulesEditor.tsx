@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import { Input } from "../design-system";
+import { cn } from "@/lib/utils";
+import { JOB_MODES } from "@/app/data/jobs";
+import { getSource } from "@/app/lib/sources";
+import { ExclusionRules } from "@/app/lib/exclusions";
+
+/**
+ * Exclusion Rules Editor
+ *
+ * Deal-breakers: companies, title keywords and skills (comma-separated),
+ * locations, modes and sources (toggles), and whether excluded jobs are
+ * hidden or only lose points.
+ */
+
+interface ExclusionRulesEditorProps {
+  rules: ExclusionRules;
+  onChange: (rules: ExclusionRules) => void;
+  locations: string[];
+  sources: string[];
+}
+
+type ListKey = "locations" | "modes" | "sources";
+
+export function ExclusionRulesEditor({ rules, onChange, locations, sources }: ExclusionRulesEditorProps) {
+  const toggle = (key: ListKey, value: string) => {
+    const current = rules[key];
+    onChange({
+      ...rules,
+      [key]: current.includes(value) ? current.filter((item) => item !== value) : [...current, value],
+    });
+  };
+
+  const chipGroup = (key: ListKey, label: string, values: string[], display: (value: string) => string = (v) => v) => (
+    <div>
+      <p className="block text-sm font-medium text-[#111111] mb-8">{label}</p>
+      <div className="flex flex-wrap gap-8">
+        {values.map((value) => (
+          <label
+            key={value}
+            className={cn(
+              "flex items-center px-12 py-8 border rounded-[6px] cursor-pointer transition-colors duration-150",
+              rules[key].includes(value)
+                ? "bg-[#DC2626] bg-opacity-10 border-[#DC2626] text-[#DC2626]"
+                : "border-[#D4D2CC] hover:bg-[#F7F6F3]"
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={rules[key].includes(value)}
+              onChange={() => toggle(key, value)}
+              className="sr-only"
+            />
+            <span className="text-sm">{display(value)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-24">
+      <Input
+        label="Companies"
+        placeholder="e.g. Infosys, Wipro"
+        value={rules.companies}
+        onChange={(e) => onChange({ ...rules, companies: e.target.value })}
+      />
+      <Input
+        label="Title keywords"
+        placeholder="e.g. Sales, Support"
+        value={rules.titleKeywords}
+        onChange={(e) => onChange({ ...rules, titleKeywords: e.target.value })}
+      />
+      <Input
+        label="Skills"
+        placeholder="e.g. PHP, Manual Testing"
+        value={rules.skills}
+        onChange={(e) => onChange({ ...rules, skills: e.target.value })}
+      />
+
+      {chipGroup("modes", "Work modes", JOB_MODES)}
+      {chipGroup("locations", "Locations", locations)}
+      {chipGroup("sources", "Sources", sources, (source) => getSource(source).name)}
+
+      <div className="pt-16 border-t border-[#E8E6E1]">
+        <p className="block text-sm font-medium text-[#111111] mb-8">Excluded jobs</p>
+        <div className="space-y-12">
+          <label className="flex items-center gap-8 text-sm text-[#111111] cursor-pointer">
+            <input
+              type="radio"
+              name="exclusion-action"
+              checked={rules.action === "hide"}
+              onChange={() => onChange({ ...rules, action: "hide" })}
+              className="accent-[#8B0000]"
+            />
+            Hide them (the dashboard can still reveal them)
+          </label>
+          <label className="flex items-center gap-8 text-sm text-[#111111] cursor-pointer">
+            <input
+              type="radio"
+              name="exclusion-action"
+              checked={rules.action === "penalty"}
+              onChange={() => onChange({ ...rules, action: "penalty" })}
+              className="accent-[#8B0000]"
+            />
+            Lower their match score by
+            <span className="font-medium text-[#8B0000]">{rules.penalty}</span>
+            points
+          </label>
+          {rules.action === "penalty" && (
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={rules.penalty}
+              onChange={(e) => onChange({ ...rules, penalty: parseInt(e.target.value) })}
+              aria-label="Exclusion penalty"
+              className="w-full h-8 bg-[#E8E6E1] rounded-full appearance-none cursor-pointer accent-[#8B0000]"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import React from "react";
+import { Button } from "../design-system";
+import { MatchWeights, MATCH_WEIGHT_LABELS, DEFAULT_WEIGHTS, MAX_WEIGHT } from "@/app/lib/matchScore";
+
+/**
+ * Match Weights Editor
+ *
+ * One slider per scoring rule (0 to MAX_WEIGHT). Shows each rule's share of
+ * the total so it is clear that weights are relative.
+ */
+
+interface MatchWeightsEditorProps {
+  weights: MatchWeights;
+  onChange: (weights: MatchWeights) => void;
+}
+
+export function MatchWeightsEditor({ weights, onChange }: MatchWeightsEditorProps) {
+  const keys = Object.keys(MATCH_WEIGHT_LABELS) as (keyof MatchWeights)[];
+  const total = keys.reduce((sum, key) => sum + weights[key], 0);
+  const isDefault = keys.every((key) => weights[key] === DEFAULT_WEIGHTS[key]);
+
+  return (
+    <div className="space-y-16">
+      {keys.map((key) => (
+        <div key={key}>
+          <div className="flex items-center justify-between mb-8">
+            <label htmlFor={`weight-${key}`} className="text-sm text-[#111111]">
+              {MATCH_WEIGHT_LABELS[key]}
+            </label>
+            <span className="text-sm text-[#6B6B6B]">
+              <span className="font-medium text-[#8B0000]">{weights[key]}</span>
+              {total > 0 && ` · ${Math.round((weights[key] / total) * 100)}%`}
+            </span>
+          </div>
+          <input
+            id={`weight-${key}`}
+            type="range"
+            min="0"
+            max={MAX_WEIGHT}
+            value={weights[key]}
+            onChange={(e) => onChange({ ...weights, [key]: parseInt(e.target.value) })}
+            className="w-full h-8 bg-[#E8E6E1] rounded-full appearance-none cursor-pointer accent-[#8B0000]"
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-8">
+        <span className="text-xs text-[#6B6B6B]">Total weight: {total}</span>
+        <Button variant="secondary" size="small" onClick={() => onChange(DEFAULT_WEIGHTS)} disabled={isDefault}>
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
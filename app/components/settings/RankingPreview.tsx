@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Job } from "@/app/data/jobs";
+import { cn } from "@/lib/utils";
+import { getMatchScoreColor, Preferences } from "@/app/lib/matchScore";
+import { rankJobs } from "@/app/lib/scorers";
+import { getActiveJobs } from "@/app/lib/jobDates";
+import { LearnedModel } from "@/app/lib/feedback";
+
+/**
+ * Ranking Preview
+ *
+ * Top jobs under draft preferences compared with the saved ones:
+ * - rank movement (▲ up / ▼ down / new to the list)
+ * - score delta (none for jobs the saved preferences excluded)
+ * Lets users see what a change does before saving it. Jobs hidden by
+ * exclusion rules are left out.
+ */
+
+interface RankingPreviewProps {
+  catalog: Job[];
+  saved: Preferences;
+  draft: Preferences;
+  learnedModel: LearnedModel;
+  limit?: number;
+}
+
+interface RankedJob {
+  id: string;
+  title: string;
+  company: string;
+  score: number;
+}
+
+function rank(catalog: Job[], preferences: Preferences, model: LearnedModel): RankedJob[] {
+  return rankJobs(getActiveJobs(catalog), catalog, preferences, model).map(({ job, match }) => ({
+    id: job.id,
+    title: job.title,
+    company: job.company,
+    score: match.score,
+  }));
+}
+
+export function RankingPreview({ catalog, saved, draft, learnedModel, limit = 10 }: RankingPreviewProps) {
+  const savedRanking = useMemo(() => rank(catalog, saved, learnedModel), [catalog, saved, learnedModel]);
+  const draftRanking = useMemo(() => rank(catalog, draft, learnedModel), [catalog, draft, learnedModel]);
+
+  const savedPositions = new Map(savedRanking.map((job, index) => [job.id, { index, score: job.score }]));
+
+  return (
+    <ol className="divide-y divide-[#E8E6E1]">
+      {draftRanking.slice(0, limit).map((job, index) => {
+        const before = savedPositions.get(job.id);
+        const movement = before ? before.index - index : 0;
+        const delta = before ? job.score - before.score : 0;
+        const isNew = before === undefined || before.index >= limit;
+
+        return (
+          <li key={job.id} className="flex items-center gap-16 py-12">
+            <span className="w-24 text-sm text-[#6B6B6B]">{index + 1}</span>
+            <span
+              className={cn(
+                "w-40 text-xs font-medium",
+                movement > 0 ? "text-[#5A7D5A]" : movement < 0 ? "text-[#DC2626]" : "text-[#9B9B9B]"
+              )}
+            >
+              {isNew ? "new" : movement > 0 ? `▲${movement}` : movement < 0 ? `▼${-movement}` : "–"}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-[#111111] truncate">{job.title}</p>
+              <p className="text-xs text-[#6B6B6B] truncate">{job.company}</p>
+            </div>
+            <span
+              className={cn(
+                "w-48 text-right text-xs",
+                delta > 0 ? "text-[#5A7D5A]" : delta < 0 ? "text-[#DC2626]" : "text-[#9B9B9B]"
+              )}
+            >
+              {before === undefined ? "–" : delta > 0 ? `+${delta}` : delta < 0 ? delta : "±0"}
+            </span>
+            <span
+              className={cn(
+                "px-8 py-4 text-xs font-medium rounded-[6px] whitespace-nowrap",
+                getMatchScoreColor(job.score)
+              )}
+            >
+              {job.score}%
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
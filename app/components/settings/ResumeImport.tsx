@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "../design-system";
+import { Job } from "@/app/data/jobs";
+import { Preferences } from "@/app/lib/matchScore";
+import {
+  RESUME_FILE_TYPES,
+  ResumeField,
+  ResumeProfile,
+  getResumeChanges,
+  parseResume,
+  readResumeFile,
+} from "@/app/lib/resumeImport";
+
+/**
+ * Resume Import
+ *
+ * Choose a resume (.txt, .md or a PDF with text) and review what it would
+ * change in the saved preferences: each field shows its current and proposed
+ * value and can be left out. Nothing is saved until "Apply and save", and
+ * then only the chosen fields. The file is read in the browser and never
+ * uploaded.
+ */
+
+interface ResumeImportProps {
+  // Titles and skills are recognised from it
+  catalog: Job[];
+  // The saved preferences, which the changes are shown against
+  preferences: Preferences;
+  onApply: (profile: ResumeProfile, fields: ResumeField[]) => void;
+}
+
+export function ResumeImport({ catalog, preferences, onApply }: ResumeImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [profile, setProfile] = useState<ResumeProfile | null>(null);
+  const [skipped, setSkipped] = useState<ResumeField[]>([]);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const changes = profile ? getResumeChanges(preferences, profile) : [];
+  const chosen = changes.filter((change) => !skipped.includes(change.field));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Choosing the same file again should read it again
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setError("");
+    setSkipped([]);
+    setIsBusy(true);
+    try {
+      setProfile(parseResume(await readResumeFile(file), catalog));
+    } catch (err) {
+      setProfile(null);
+      setError(err instanceof Error ? err.message : "Could not read file");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleField = (field: ResumeField) => {
+    setSkipped((prev) => (prev.includes(field) ? prev.filter((item) => item !== field) : [...prev, field]));
+  };
+
+  const handleApply = () => {
+    if (!profile) return;
+    onApply(profile, chosen.map((change) => change.field));
+    setProfile(null);
+    setFileName("");
+  };
+
+  const handleDiscard = () => {
+    setProfile(null);
+    setFileName("");
+  };
+
+  return (
+    <div className="space-y-16">
+      <input
+        type="file"
+        accept={RESUME_FILE_TYPES}
+        onChange={handleFileChange}
+        disabled={isBusy}
+        className="block w-full text-sm text-[#6B6B6B] file:mr-16 file:px-16 file:py-8 file:rounded-[6px] file:border file:border-[#D4D2CC] file:bg-white file:text-sm file:text-[#111111] hover:file:bg-[#F7F6F3]"
+      />
+      {isBusy && <p className="text-sm text-[#6B6B6B]">Reading {fileName}…</p>}
+      {error && <p className="text-sm text-[#8B0000]">{error}</p>}
+
+      {profile && changes.length === 0 && (
+        <div className="flex items-center justify-between gap-16 p-16 bg-[#F7F6F3] border border-[#D4D2CC] rounded-[6px]">
+          <p className="text-sm text-[#6B6B6B]">
+            Nothing new in {fileName}: your preferences already cover it.
+          </p>
+          <Button variant="secondary" size="small" onClick={handleDiscard}>
+            Close
+          </Button>
+        </div>
+      )}
+
+      {changes.length > 0 && (
+        <div>
+          <p className="block text-sm font-medium text-[#111111] mb-8">Changes from {fileName}</p>
+          <div className="divide-y divide-[#E8E6E1] border border-[#D4D2CC] rounded-[6px]">
+            {changes.map((change) => (
+              <label key={change.field} className="flex gap-12 px-16 py-12 cursor-pointer hover:bg-[#F7F6F3]">
+                <input
+                  type="checkbox"
+                  checked={!skipped.includes(change.field)}
+                  onChange={() => toggleField(change.field)}
+                  className="mt-4 accent-[#8B0000]"
+                />
+                <div className="flex-1 min-w-0 space-y-4">
+                  <p className="text-sm text-[#111111]">
+                    {change.label} <span className="text-xs text-[#6B6B6B]">· {change.detail}</span>
+                  </p>
+                  {change.before ? (
+                    <p className="text-xs text-[#DC2626] line-through break-words">{change.before}</p>
+                  ) : (
+                    <p className="text-xs text-[#9B9B9B] italic">Not set</p>
+                  )}
+                  <p className="text-xs text-[#5A7D5A] break-words">{change.after}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-12 mt-16">
+            <Button variant="primary" size="small" onClick={handleApply} disabled={chosen.length === 0}>
+              Apply and save
+            </Button>
+            <Button variant="secondary" size="small" onClick={handleDiscard}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
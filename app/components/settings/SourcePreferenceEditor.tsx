@@ -0,0 +1,120 @@
+"use client";
+
+import React from "react";
+import { Button } from "../design-system";
+import { cn } from "@/lib/utils";
+import { getSource } from "@/app/lib/sources";
+import { SourceOutcome, suggestSourceRanking } from "@/app/lib/sourcePreferences";
+
+/**
+ * Source Preference Editor
+ *
+ * The boards the user prefers, best first (▲ / ▼ to reorder, × to drop),
+ * the unranked boards to add, each board's Applied → Selected outcomes, and
+ * an order suggested from those outcomes.
+ */
+
+interface SourcePreferenceEditorProps {
+  ranking: string[];
+  onChange: (ranking: string[]) => void;
+  sources: string[];
+  outcomes: SourceOutcome[];
+}
+
+export function SourcePreferenceEditor({ ranking, onChange, sources, outcomes }: SourcePreferenceEditorProps) {
+  const unranked = sources.filter((source) => !ranking.includes(source));
+  const suggestion = suggestSourceRanking(outcomes, ranking, sources);
+  const showSuggestion = suggestion.length > 0 && suggestion.join() !== ranking.join();
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranking];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const describeOutcome = (source: string) => {
+    const outcome = outcomes.find((candidate) => candidate.source === source);
+    if (!outcome) return "No applications yet";
+    return `${outcome.applied} applied · ${outcome.selected} selected · ${outcome.rejected} rejected (${Math.round(outcome.selectionRate * 100)}%)`;
+  };
+
+  const arrowClassName =
+    "w-32 h-32 text-sm text-[#6B6B6B] border border-[#D4D2CC] rounded-[6px] hover:bg-[#F7F6F3] disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-24">
+      {ranking.length === 0 ? (
+        <p className="text-sm text-[#6B6B6B]">No ranking yet: no board gets a bonus. Add boards below.</p>
+      ) : (
+        <ol className="divide-y divide-[#E8E6E1] border border-[#D4D2CC] rounded-[6px]">
+          {ranking.map((source, index) => (
+            <li key={source} className="flex items-center gap-12 px-16 py-12">
+              <span className="w-24 text-sm text-[#6B6B6B]">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[#111111]">{getSource(source).name}</p>
+                <p className="text-xs text-[#6B6B6B]">{describeOutcome(source)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${getSource(source).name} up`}
+                className={arrowClassName}
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === ranking.length - 1}
+                aria-label={`Move ${getSource(source).name} down`}
+                className={arrowClassName}
+              >
+                ▼
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(ranking.filter((item) => item !== source))}
+                aria-label={`Remove ${getSource(source).name}`}
+                className={cn(arrowClassName, "hover:text-[#DC2626]")}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {unranked.length > 0 && (
+        <div>
+          <p className="block text-sm font-medium text-[#111111] mb-8">Not ranked</p>
+          <div className="flex flex-wrap gap-8">
+            {unranked.map((source) => (
+              <button
+                key={source}
+                type="button"
+                onClick={() => onChange([...ranking, source])}
+                title={describeOutcome(source)}
+                className="px-12 py-8 text-sm border border-[#D4D2CC] rounded-[6px] hover:bg-[#F7F6F3] transition-colors duration-150"
+              >
+                + {getSource(source).name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showSuggestion && (
+        <div className="p-16 bg-[#F7F6F3] border border-[#D4D2CC] rounded-[6px]">
+          <p className="text-sm text-[#111111] mb-4">Suggested from your outcomes</p>
+          <p className="text-xs text-[#6B6B6B] mb-12">
+            {suggestion.map((source) => getSource(source).name).join(" → ")}
+          </p>
+          <Button variant="secondary" size="small" onClick={() => onChange(suggestion)}>
+            Use this order
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "../design-system";
+import { cn } from "@/lib/utils";
+import { Job } from "@/app/data/jobs";
+import { Preferences } from "@/app/lib/matchScore";
+import { LearnedModel } from "@/app/lib/feedback";
+import {
+  BIN_SIZE,
+  DEFAULT_DAILY_TARGET,
+  MAX_DAILY_TARGET,
+  formatDailyMatches,
+  getScoredPostings,
+  simulateThreshold,
+  suggestThreshold,
+} from "@/app/lib/thresholdSimulator";
+
+/**
+ * Threshold Simulator
+ *
+ * Live what-if for the minimum match score under the draft preferences:
+ * a histogram of catalog scores with the threshold marked, how many jobs
+ * pass (and how many a day), and a suggested threshold for a target number
+ * of matches a day. See app/lib/thresholdSimulator.ts.
+ */
+
+interface ThresholdSimulatorProps {
+  catalog: Job[];
+  preferences: Preferences;
+  learnedModel: LearnedModel;
+  onChange: (threshold: number) => void;
+}
+
+export function ThresholdSimulator({ catalog, preferences, learnedModel, onChange }: ThresholdSimulatorProps) {
+  const [dailyTarget, setDailyTarget] = useState(DEFAULT_DAILY_TARGET);
+  const postings = useMemo(
+    () => getScoredPostings(catalog, preferences, learnedModel),
+    [catalog, preferences, learnedModel]
+  );
+
+  const threshold = preferences.minMatchScore;
+  const simulation = simulateThreshold(postings, threshold);
+  const suggestion = suggestThreshold(postings, dailyTarget);
+  const tallest = Math.max(1, ...simulation.bins);
+
+  return (
+    <div className="space-y-16">
+      <div>
+        <div className="relative flex items-end gap-4 h-[96px] border-b border-[#D4D2CC]">
+          {simulation.bins.map((count, index) => {
+            const start = index * BIN_SIZE;
+            const isPassing = start >= threshold;
+            const isPartial = !isPassing && start + BIN_SIZE > threshold;
+            const end = index === simulation.bins.length - 1 ? 100 : start + BIN_SIZE - 1;
+            return (
+              <div
+                key={start}
+                title={`${start}–${end}: ${count} ${count === 1 ? "job" : "jobs"}`}
+                className={cn(
+                  "flex-1 rounded-t-[2px]",
+                  isPassing || isPartial ? "bg-[#8B0000]" : "bg-[#D4D2CC]",
+                  isPartial && "opacity-50"
+                )}
+                style={{ height: `${(count / tallest) * 100}%` }}
+              />
+            );
+          })}
+          <div
+            className="absolute top-0 bottom-0 w-[2px] bg-[#111111]"
+            style={{ left: `calc(${threshold}% - 1px)` }}
+            aria-hidden="true"
+          />
+        </div>
+        <div className="flex justify-between mt-4 text-xs text-[#9B9B9B]">
+          <span>0</span>
+          <span>50</span>
+          <span>100</span>
+        </div>
+      </div>
+
+      <p className="text-sm text-[#111111]">
+        <span className="font-medium text-[#8B0000]">{simulation.passing}</span> of {simulation.total} jobs score{" "}
+        {threshold} or more ({formatDailyMatches(simulation.dailyMatches)}).
+      </p>
+
+      <div className="p-16 bg-[#F7F6F3] border border-[#D4D2CC] rounded-[6px] space-y-12">
+        <label className="flex flex-wrap items-center gap-8 text-sm text-[#6B6B6B]">
+          Suggest a threshold for
+          <input
+            type="number"
+            min={1}
+            max={MAX_DAILY_TARGET}
+            value={dailyTarget}
+            onChange={(e) =>
+              setDailyTarget(Math.min(MAX_DAILY_TARGET, Math.max(1, parseInt(e.target.value) || 1)))
+            }
+            className="w-[64px] px-8 py-4 text-sm text-[#111111] bg-white border border-[#D4D2CC] rounded-[6px] focus:outline-none focus:border-[#8B0000]"
+          />
+          new matches a day
+        </label>
+        <div className="flex items-center justify-between gap-16">
+          <p className="text-sm text-[#111111]">
+            {suggestion.meetsTarget
+              ? `Suggested: ${suggestion.threshold} (${formatDailyMatches(suggestion.dailyMatches)})`
+              : `No threshold reaches ${dailyTarget} a day: even 0 brings in ${formatDailyMatches(suggestion.dailyMatches)}. Broaden your preferences for more.`}
+          </p>
+          {suggestion.meetsTarget && suggestion.threshold !== threshold && (
+            <Button variant="secondary" size="small" onClick={() => onChange(suggestion.threshold)}>
+              Use {suggestion.threshold}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+export { MatchWeightsEditor } from "./MatchWeightsEditor";
+export { RankingPreview } from "./RankingPreview";
+export { ExclusionRulesEditor } from "./ExclusionRulesEditor";
+export { SourcePreferenceEditor } from "./SourcePreferenceEditor";
+export { ResumeImport } from "./ResumeImport";
+export { ThresholdSimulator } from "./ThresholdSimulator";
@@ -1,65 +1,155 @@
 "use client";
 
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect } from "react";
 import Link from "next/link";
-import { jobs, Job, getUniqueLocations, getUniqueModes, getUniqueExperiences, getUniqueSources } from "../data/jobs";
+import { Job } from "../data/jobs";
 import { JobCard, JobModal, FilterBar, JobStatus } from "../components/jobs";
 import { EmptyState, Button } from "../components/design-system";
-import { calculateMatchScore, loadPreferences, hasPreferences, Preferences } from "../lib/matchScore";
+import { loadPreferences, hasPreferences, Preferences } from "../lib/matchScore";
+import { formatSalaryFloor } from "../lib/salary";
 import { loadJobStatuses, saveJobStatus } from "../lib/jobStatus";
+import { isJobSaved, loadSavedJobIds, storeSavedJobIds, toggleSavedJob } from "../lib/savedJobs";
+import { DEFAULT_PAGE_SIZE } from "../lib/jobQuery";
+import type { DashboardFilters, DashboardJob, DashboardRequest, DashboardResult } from "../lib/dashboardQuery";
+import { LearnedModel, EMPTY_MODEL, Vote, loadLearnedModel, setJobVote, recordJobSignal } from "../lib/feedback";
 
 /**
  * Dashboard Page
  * 
  * Displays job cards with filtering, search, and match scoring capabilities.
+ * The list comes a page at a time from POST /api/jobs, which scores and
+ * filters on the server with the preferences, learned model and statuses
+ * held here (see app/lib/dashboardQuery.ts).
  * Saved jobs are stored in localStorage.
  * Match scores are calculated based on user preferences.
  * Job statuses are tracked: Not Applied, Applied, Rejected, Selected.
+ * Expired listings are archived out of the list (they stay on the Saved page).
+ * Jobs hidden by exclusion rules are left out behind an "N hidden" toggle.
+ * Likes, dislikes, saves and applications are learned from and re-rank the list.
+ * Opening a job pushes its /jobs/<id> URL so the link can be shared;
+ * closing the modal (or pressing Back) returns to /dashboard.
  */
 
-const SAVED_JOBS_KEY = "jnt_saved_jobs";
-
 interface Toast {
   id: string;
   message: string;
 }
 
+// Wait for a pause in typing before querying
+const QUERY_DELAY_MS = 200;
+
+const EMPTY_FILTERS: DashboardFilters = {
+  keyword: "",
+  location: "",
+  mode: "",
+  experience: "",
+  source: "",
+  salary: "",
+  status: "",
+  sort: "latest",
+};
+
+async function postDashboardQuery(request: DashboardRequest, signal?: AbortSignal): Promise<DashboardResult> {
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Could not load jobs (${response.status})`);
+  }
+  return data;
+}
+
 export default function DashboardPage() {
   const [savedJobIds, setSavedJobIds] = useState<string[]>([]);
-  const [selectedJob, setSelectedJob] = useState<Job | null>(null);
+  const [selectedJob, setSelectedJob] = useState<DashboardJob | Job | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [preferences, setPreferences] = useState<Preferences | null>(null);
   const [showOnlyMatches, setShowOnlyMatches] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+  const [meetsSalaryFloorOnly, setMeetsSalaryFloorOnly] = useState(false);
   const [jobStatuses, setJobStatuses] = useState<Record<string, JobStatus>>({});
+  const [learnedModel, setLearnedModel] = useState<LearnedModel>(EMPTY_MODEL);
   const [toasts, setToasts] = useState<Toast[]>([]);
-  const [filters, setFilters] = useState({
-    keyword: "",
-    location: "",
-    mode: "",
-    experience: "",
-    source: "",
-    status: "" as JobStatus | "",
-    sort: "latest",
-  });
+  const [filters, setFilters] = useState<DashboardFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<DashboardResult | null>(null);
+  const [error, setError] = useState("");
+  const [isLoaded, setIsLoaded] = useState(false);
 
   // Load saved jobs, preferences, and job statuses from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem(SAVED_JOBS_KEY);
-    if (saved) {
-      try {
-        setSavedJobIds(JSON.parse(saved));
-      } catch {
-        setSavedJobIds([]);
-      }
-    }
+    setSavedJobIds(loadSavedJobIds());
     
     setPreferences(loadPreferences());
     setJobStatuses(loadJobStatuses());
+    setLearnedModel(loadLearnedModel());
+    setIsLoaded(true);
+  }, []);
+
+  // Query the current page whenever anything it depends on changes
+  useEffect(() => {
+    if (!isLoaded) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      postDashboardQuery(
+        {
+          filters,
+          page,
+          pageSize: DEFAULT_PAGE_SIZE,
+          preferences: preferences ?? undefined,
+          learnedModel,
+          statuses: jobStatuses,
+          onlyMatches: showOnlyMatches,
+          meetsSalaryFloor: meetsSalaryFloorOnly,
+          showHidden,
+        },
+        controller.signal
+      )
+        .then((next) => {
+          setResult(next);
+          setError("");
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) {
+            setError(err instanceof Error ? err.message : "Could not load jobs");
+          }
+        });
+    }, QUERY_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    isLoaded,
+    filters,
+    page,
+    preferences,
+    learnedModel,
+    jobStatuses,
+    showOnlyMatches,
+    meetsSalaryFloorOnly,
+    showHidden,
+  ]);
+
+  // Back/forward out of a job URL closes the modal
+  useEffect(() => {
+    const handlePopState = () => {
+      if (!window.location.pathname.startsWith("/jobs/")) {
+        setIsModalOpen(false);
+      }
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
   }, []);
 
   // Save to localStorage when savedJobIds changes
   useEffect(() => {
-    localStorage.setItem(SAVED_JOBS_KEY, JSON.stringify(savedJobIds));
+    storeSavedJobIds(savedJobIds);
   }, [savedJobIds]);
 
   const showToast = (message: string) => {
@@ -73,129 +163,104 @@ export default function DashboardPage() {
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
   };
 
+  const toggleView = (toggle: (value: boolean) => void, value: boolean) => {
+    toggle(value);
+    setPage(1);
+  };
+
+  const changePage = (next: number) => {
+    setPage(next);
+    window.scrollTo({ top: 0 });
+  };
+
+  // Only the current page (and the open job) are in the browser
+  const loadedJobs: Job[] = [...(result?.jobs ?? []), ...(selectedJob ? [selectedJob] : [])];
+  const findLoadedJob = (jobId: string) => loadedJobs.find((j) => j.id === jobId);
+
   const handleSaveJob = (jobId: string) => {
-    setSavedJobIds((prev) => {
-      if (prev.includes(jobId)) {
-        return prev.filter((id) => id !== jobId);
-      }
-      return [...prev, jobId];
-    });
+    const job = findLoadedJob(jobId);
+    if (!job) return;
+    setLearnedModel(recordJobSignal(job, "save", isJobSaved(job, savedJobIds)));
+    setSavedJobIds((prev) => toggleSavedJob(job, prev));
   };
 
   const handleViewJob = (job: Job) => {
     setSelectedJob(job);
     setIsModalOpen(true);
+    window.history.pushState(null, "", `/jobs/${job.id}`);
+  };
+
+  // Similar roles open in the same modal, replacing the job URL instead of stacking history;
+  // their match breakdown is fetched on its own since they may not be on this page
+  const handleSelectSimilar = (job: Job) => {
+    setSelectedJob(job);
+    window.history.replaceState(null, "", `/jobs/${job.id}`);
+    if (!preferences) return;
+
+    postDashboardQuery({
+      filters: EMPTY_FILTERS,
+      page: 1,
+      pageSize: 1,
+      preferences,
+      learnedModel,
+      statuses: jobStatuses,
+      onlyMatches: false,
+      meetsSalaryFloor: false,
+      showHidden: true,
+      jobIds: [job.id],
+    })
+      .then(({ jobs: [scored] }) => {
+        if (scored) setSelectedJob((current) => (current?.id === scored.id ? scored : current));
+      })
+      .catch(() => {
+        // The modal still shows the job, just without its breakdown
+      });
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    if (window.location.pathname.startsWith("/jobs/")) {
+      window.history.back();
+    }
   };
 
   const handleApply = (url: string) => {
+    const job = loadedJobs.find((j) => j.applyUrl === url);
+    if (job) {
+      setLearnedModel(recordJobSignal(job, "apply"));
+    }
     window.open(url, "_blank", "noopener,noreferrer");
   };
 
   const handleStatusChange = (jobId: string, newStatus: JobStatus) => {
-    const job = jobs.find((j) => j.id === jobId);
+    const job = findLoadedJob(jobId);
     if (job) {
       saveJobStatus(jobId, newStatus, job.title, job.company);
       setJobStatuses(loadJobStatuses());
+      if (newStatus === "Applied") {
+        setLearnedModel(recordJobSignal(job, "apply"));
+      }
       showToast(`Status updated: ${newStatus}`);
     }
   };
 
-  const userHasPreferences = hasPreferences();
-  const minMatchScore = preferences?.minMatchScore ?? 40;
-
-  // Calculate match scores for all jobs
-  const jobsWithScores = useMemo(() => {
-    if (!preferences) {
-      return jobs.map((job) => ({ ...job, matchScore: undefined }));
-    }
-    return jobs.map((job) => ({
-      ...job,
-      matchScore: calculateMatchScore(job, preferences),
-    }));
-  }, [preferences]);
-
-  const filteredJobs = useMemo(() => {
-    let result = [...jobsWithScores];
-
-    // Filter by match score threshold if toggle is on
-    if (showOnlyMatches && preferences) {
-      result = result.filter((job) => (job.matchScore ?? 0) >= minMatchScore);
-    }
-
-    // Keyword filter
-    if (filters.keyword) {
-      const keyword = filters.keyword.toLowerCase();
-      result = result.filter(
-        (job) =>
-          job.title.toLowerCase().includes(keyword) ||
-          job.company.toLowerCase().includes(keyword)
-      );
-    }
-
-    // Location filter
-    if (filters.location) {
-      result = result.filter((job) => job.location === filters.location);
-    }
-
-    // Mode filter
-    if (filters.mode) {
-      result = result.filter((job) => job.mode === filters.mode);
-    }
-
-    // Experience filter
-    if (filters.experience) {
-      result = result.filter((job) => job.experience === filters.experience);
-    }
-
-    // Source filter
-    if (filters.source) {
-      result = result.filter((job) => job.source === filters.source);
-    }
-
-    // Status filter (AND logic with all other filters)
-    if (filters.status) {
-      result = result.filter((job) => {
-        const jobStatus = jobStatuses[job.id] || "Not Applied";
-        return jobStatus === filters.status;
-      });
+  const handleVote = (jobId: string, vote: Vote | null) => {
+    const job = findLoadedJob(jobId);
+    if (job) {
+      setLearnedModel(setJobVote(job, vote));
     }
+  };
 
-    // Sort
-    switch (filters.sort) {
-      case "latest":
-        result.sort((a, b) => a.postedDaysAgo - b.postedDaysAgo);
-        break;
-      case "oldest":
-        result.sort((a, b) => b.postedDaysAgo - a.postedDaysAgo);
-        break;
-      case "match-score":
-        result.sort((a, b) => (b.matchScore ?? 0) - (a.matchScore ?? 0));
-        break;
-      case "salary-high":
-        // Simple sort by extracting first number from salary range
-        result.sort((a, b) => {
-          const getFirstNum = (s: string) => {
-            const match = s.match(/\d+/);
-            return match ? parseInt(match[0]) : 0;
-          };
-          return getFirstNum(b.salaryRange) - getFirstNum(a.salaryRange);
-        });
-        break;
-      case "salary-low":
-        result.sort((a, b) => {
-          const getFirstNum = (s: string) => {
-            const match = s.match(/\d+/);
-            return match ? parseInt(match[0]) : 0;
-          };
-          return getFirstNum(a.salaryRange) - getFirstNum(b.salaryRange);
-        });
-        break;
-    }
+  const userHasPreferences = hasPreferences();
+  const minMatchScore = preferences?.minMatchScore ?? 40;
 
-    return result;
-  }, [filters, jobsWithScores, showOnlyMatches, minMatchScore, preferences]);
+  const pageJobs = result?.jobs ?? [];
+  const hiddenCount = result?.hiddenCount ?? 0;
+  const firstShown = result ? (result.page - 1) * result.pageSize + 1 : 0;
+  const selectedMatch = selectedJob && "match" in selectedJob ? selectedJob.match : undefined;
 
   return (
     <div className="max-w-[1200px] mx-auto px-24 py-40">
@@ -227,16 +292,43 @@ export default function DashboardPage() {
       <FilterBar
         filters={filters}
         onFilterChange={handleFilterChange}
-        locations={getUniqueLocations()}
-        modes={getUniqueModes()}
-        experiences={getUniqueExperiences()}
-        sources={getUniqueSources()}
+        locations={result?.options.locations ?? []}
+        regions={result?.options.regions ?? []}
+        modes={result?.options.modes ?? []}
+        experiences={result?.options.experiences ?? []}
+        sources={result?.options.sources ?? []}
         showOnlyMatches={showOnlyMatches}
-        onToggleMatches={() => setShowOnlyMatches(!showOnlyMatches)}
+        onToggleMatches={() => toggleView(setShowOnlyMatches, !showOnlyMatches)}
         hasPreferences={userHasPreferences}
+        meetsSalaryFloorOnly={meetsSalaryFloorOnly}
+        onToggleSalaryFloor={() => toggleView(setMeetsSalaryFloorOnly, !meetsSalaryFloorOnly)}
+        salaryFloorLabel={
+          preferences && preferences.salaryFloor.amount > 0 ? formatSalaryFloor(preferences.salaryFloor) : undefined
+        }
       />
 
-      {filteredJobs.length === 0 ? (
+      {hiddenCount > 0 && (
+        <div className="flex items-center justify-between gap-16 px-16 py-12 mb-24 bg-[#F7F6F3] border border-[#D4D2CC] rounded-[6px]">
+          <span className="text-sm text-[#6B6B6B]">
+            {hiddenCount} {hiddenCount === 1 ? "job" : "jobs"} hidden by your rules
+            {showHidden && " (shown below, marked Excluded)"}
+          </span>
+          <div className="flex items-center gap-16">
+            <Link href="/settings" className="text-sm text-[#6B6B6B] hover:underline">
+              Edit rules
+            </Link>
+            <button onClick={() => toggleView(setShowHidden, !showHidden)} className="text-sm text-[#8B0000] hover:underline">
+              {showHidden ? "Hide them" : "Show them"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mb-24 text-sm text-[#8B0000]">{error}</p>}
+
+      {!result ? (
+        !error && <p className="py-64 text-center text-sm text-[#6B6B6B]">Loading jobs…</p>
+      ) : pageJobs.length === 0 ? (
         <div className="text-center py-64">
           <EmptyState
             title="No roles match your criteria"
@@ -247,35 +339,71 @@ export default function DashboardPage() {
         <>
           <div className="mb-24">
             <span className="text-sm text-[#6B6B6B]">
-              Showing {filteredJobs.length} of {jobs.length} jobs
+              Showing {firstShown}–{firstShown + pageJobs.length - 1} of {result.total} jobs
+              {result.total !== result.activeTotal && ` (${result.activeTotal} active)`}
               {showOnlyMatches && userHasPreferences && ` (above ${minMatchScore}% match)`}
+              {meetsSalaryFloorOnly && preferences && preferences.salaryFloor.amount > 0 &&
+                ` (paying ${formatSalaryFloor(preferences.salaryFloor)} or more)`}
             </span>
           </div>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-24">
-            {filteredJobs.map((job) => (
+            {pageJobs.map((job) => (
               <JobCard
                 key={job.id}
                 job={job}
-                isSaved={savedJobIds.includes(job.id)}
+                isSaved={isJobSaved(job, savedJobIds)}
                 onView={handleViewJob}
                 onSave={handleSaveJob}
                 onApply={handleApply}
                 matchScore={job.matchScore}
+                skillCoverage={job.skillCoverage}
+                exclusions={job.exclusions}
                 status={jobStatuses[job.id] || "Not Applied"}
                 onStatusChange={handleStatusChange}
+                highlight={filters.keyword}
+                vote={learnedModel.votes[job.id]}
+                onVote={handleVote}
               />
             ))}
           </div>
+          {result.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-16 mt-40">
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => changePage(result.page - 1)}
+                disabled={result.page === 1}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-[#6B6B6B]">
+                Page {result.page} of {result.totalPages}
+              </span>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => changePage(result.page + 1)}
+                disabled={result.page === result.totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          )}
         </>
       )}
 
       <JobModal
         job={selectedJob}
         isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
+        onClose={handleCloseModal}
         onSave={handleSaveJob}
         onApply={handleApply}
-        isSaved={selectedJob ? savedJobIds.includes(selectedJob.id) : false}
+        isSaved={selectedJob ? isJobSaved(selectedJob, savedJobIds) : false}
+        highlight={filters.keyword}
+        match={selectedMatch}
+        vote={selectedJob ? learnedModel.votes[selectedJob.id] : undefined}
+        onVote={handleVote}
+        onSelectJob={handleSelectSimilar}
       />
 
       {/* Toast Notifications */}
@@ -1,19 +1,44 @@
+// The same role posted on another board (see app/lib/dedupe.ts)
+export interface JobListing {
+  id: string;
+  source: string;
+  applyUrl: string;
+}
+
 export interface Job {
   id: string;
   title: string;
   company: string;
   location: string;
   mode: "Remote" | "Hybrid" | "Onsite";
-  experience: "Fresher" | "0-1" | "1-3" | "3-5";
+  // Ordered ranges with partial-credit matching (see app/lib/experience.ts)
+  experience: "Fresher" | "0-1" | "1-3" | "3-5" | "5-8" | "8+";
+  // Must-have skills
   skills: string[];
-  source: "LinkedIn" | "Naukri" | "Indeed";
-  postedDaysAgo: number;
+  // Skills that help but are not required (weigh half as much in the match score)
+  niceToHaveSkills?: string[];
+  // id of a registered source (see app/lib/sources.ts)
+  source: string;
+  // ISO 8601 timestamps; "days ago" is computed at render time (see app/lib/jobDates.ts)
+  postedAt: string;
+  // Past this moment the listing is archived out of the dashboard and digest
+  expiresAt?: string;
   salaryRange: string;
   applyUrl: string;
   description: string;
+  alternateListings?: JobListing[];
 }
 
-export const jobs: Job[] = [
+export const JOB_MODES: Job["mode"][] = ["Remote", "Hybrid", "Onsite"];
+export const JOB_EXPERIENCES: Job["experience"][] = ["Fresher", "0-1", "1-3", "3-5", "5-8", "8+"];
+
+/**
+ * Built-in listings
+ * The full catalog adds the imported ones; it is read from disk on the
+ * server with loadCatalog() (see app/lib/catalogStore.ts) so imports show
+ * up without a rebuild.
+ */
+export const seedJobs: Job[] = [
   {
     id: "1",
     title: "SDE Intern",
@@ -23,7 +48,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["Java", "Python", "Data Structures"],
     source: "LinkedIn",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
+    expiresAt: "2026-12-01T09:00:00Z",
     salaryRange: "₹25k–₹35k/month Internship",
     applyUrl: "https://careers.infosys.com/jobs/1",
     description: "Join India's leading IT services company as a Software Development Engineer Intern. Work on real client projects, learn from experienced mentors, and gain hands-on experience in enterprise software development."
@@ -37,7 +63,7 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["Java", "SQL", "Communication"],
     source: "Naukri",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "3–5 LPA",
     applyUrl: "https://tcs.taleo.net/jobs/2",
     description: "Start your career with TCS through our prestigious GET program. Comprehensive training in latest technologies followed by project assignments. Excellent growth opportunities and global exposure."
@@ -51,7 +77,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Node.js", "MongoDB", "Express"],
     source: "Indeed",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "4–6 LPA",
     applyUrl: "https://careers.wipro.com/jobs/3",
     description: "Build scalable backend systems for global clients. Work with microservices architecture, REST APIs, and cloud platforms. Strong focus on code quality and best practices."
@@ -65,7 +91,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["React", "JavaScript", "CSS"],
     source: "LinkedIn",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
+    expiresAt: "2026-11-30T09:00:00Z",
     salaryRange: "₹20k–₹30k/month Internship",
     applyUrl: "https://www.accenture.com/in-en/careers/jobs/4",
     description: "Create beautiful user interfaces for enterprise applications. Learn modern frontend frameworks, accessibility standards, and responsive design principles from industry experts."
@@ -79,7 +106,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["Selenium", "Manual Testing", "JIRA"],
     source: "Naukri",
-    postedDaysAgo: 7,
+    postedAt: "2026-10-12T09:00:00Z",
+    expiresAt: "2026-11-26T09:00:00Z",
     salaryRange: "₹18k–₹25k/month Internship",
     applyUrl: "https://www.capgemini.com/in-en/careers/jobs/5",
     description: "Ensure software quality through manual and automated testing. Learn test planning, bug reporting, and work with cutting-edge testing tools in a collaborative environment."
@@ -93,7 +121,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["SQL", "Python", "Excel"],
     source: "Indeed",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
+    expiresAt: "2026-11-29T09:00:00Z",
     salaryRange: "₹22k–₹28k/month Internship",
     applyUrl: "https://careers.cognizant.com/in/en/jobs/6",
     description: "Transform raw data into actionable insights. Work with business intelligence tools, create dashboards, and support data-driven decision making for Fortune 500 clients."
@@ -106,8 +135,9 @@ export const jobs: Job[] = [
     mode: "Hybrid",
     experience: "0-1",
     skills: ["Java", "Spring Boot", "MySQL"],
+    niceToHaveSkills: ["Docker", "AWS"],
     source: "LinkedIn",
-    postedDaysAgo: 0,
+    postedAt: "2026-10-19T09:00:00Z",
     salaryRange: "5–8 LPA",
     applyUrl: "https://careers.ibm.com/jobs/7",
     description: "Develop enterprise Java applications using Spring Boot and microservices. Work on cloud-native solutions and contribute to innovative projects in AI and automation."
@@ -121,7 +151,7 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["Python", "Django", "PostgreSQL"],
     source: "Naukri",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "4–7 LPA",
     applyUrl: "https://careers.oracle.com/jobs/8",
     description: "Build backend services and automation tools using Python. Work with databases, APIs, and cloud infrastructure in a fast-paced, innovation-driven environment."
@@ -134,8 +164,9 @@ export const jobs: Job[] = [
     mode: "Hybrid",
     experience: "1-3",
     skills: ["React", "TypeScript", "Redux"],
+    niceToHaveSkills: ["Next.js", "GraphQL"],
     source: "Indeed",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
     salaryRange: "8–12 LPA",
     applyUrl: "https://jobs.sap.com/jobs/9",
     description: "Create modern web applications using React and TypeScript. Collaborate with UX designers and backend teams to deliver exceptional user experiences for enterprise software."
@@ -149,7 +180,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["C++", "Data Structures", "Algorithms"],
     source: "LinkedIn",
-    postedDaysAgo: 8,
+    postedAt: "2026-10-11T09:00:00Z",
+    expiresAt: "2026-11-25T09:00:00Z",
     salaryRange: "₹30k–₹40k/month Internship",
     applyUrl: "https://jobs.dell.com/jobs/10",
     description: "Join Dell's engineering team to work on cutting-edge hardware and software solutions. Strong focus on system design, optimization, and innovation in the tech industry."
@@ -163,7 +195,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["React", "JavaScript", "AWS"],
     source: "LinkedIn",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
+    expiresAt: "2026-12-02T09:00:00Z",
     salaryRange: "₹50k–₹70k/month Internship",
     applyUrl: "https://www.amazon.jobs/en/jobs/11",
     description: "Work on customer-facing applications that serve millions of users. Learn Amazon's leadership principles while building scalable, high-performance web interfaces."
@@ -177,7 +210,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Java", "Spring", "Kafka"],
     source: "Naukri",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "12–18 LPA",
     applyUrl: "https://www.flipkartcareers.com/jobs/12",
     description: "Build systems that handle millions of transactions daily. Work on India's largest e-commerce platform with opportunities to solve complex scalability challenges."
@@ -190,8 +223,10 @@ export const jobs: Job[] = [
     mode: "Remote",
     experience: "Fresher",
     skills: ["Python", "SQL", "Spark"],
+    niceToHaveSkills: ["Kafka", "AWS"],
     source: "Indeed",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
+    expiresAt: "2026-11-29T09:00:00Z",
     salaryRange: "₹35k–₹45k/month Internship",
     applyUrl: "https://careers.swiggy.com/jobs/13",
     description: "Process and analyze massive datasets from India's leading food delivery platform. Build data pipelines and support real-time analytics for business decisions."
@@ -205,7 +240,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["Node.js", "React", "MongoDB"],
     source: "LinkedIn",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
+    expiresAt: "2026-12-01T09:00:00Z",
     salaryRange: "₹40k–₹55k/month Internship",
     applyUrl: "https://razorpay.com/jobs/14",
     description: "Join India's leading fintech unicorn. Work on payment systems, financial products, and developer tools that power thousands of businesses across the country."
@@ -219,7 +255,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Kotlin", "Android", "MVVM"],
     source: "Naukri",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "10–16 LPA",
     applyUrl: "https://www.phonepe.com/careers/jobs/15",
     description: "Build features for India's most popular UPI payment app. Work on high-performance mobile applications serving hundreds of millions of users daily."
@@ -233,7 +269,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Appium", "Selenium", "API Testing"],
     source: "Indeed",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "5–8 LPA",
     applyUrl: "https://paytm.com/careers/jobs/16",
     description: "Ensure quality across Paytm's diverse product suite including payments, financial services, and commerce. Work in a fast-paced environment with daily releases."
@@ -247,7 +283,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Java", "JavaScript", "MySQL"],
     source: "LinkedIn",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.zoho.com/careers/jobs/17",
     description: "Work on Zoho's suite of business applications. End-to-end development from database design to user interface in a product-focused, no-meeting culture."
@@ -261,7 +297,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["React", "Ember.js", "CSS"],
     source: "Naukri",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "9–14 LPA",
     applyUrl: "https://www.freshworks.com/company/careers/jobs/18",
     description: "Build intuitive interfaces for customer engagement software. Work with modern frameworks and contribute to products used by businesses worldwide."
@@ -275,7 +311,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Haskell", "PureScript", "PostgreSQL"],
     source: "Indeed",
-    postedDaysAgo: 7,
+    postedAt: "2026-10-12T09:00:00Z",
     salaryRange: "15–25 LPA",
     applyUrl: "https://www.juspay.in/careers/jobs/19",
     description: "Work with functional programming languages to build India's payment infrastructure. Solve complex problems in a team that values code quality and innovation."
@@ -289,7 +325,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Swift", "iOS", "UIKit"],
     source: "LinkedIn",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "12–20 LPA",
     applyUrl: "https://careers.cred.club/jobs/20",
     description: "Build premium experiences for CRED's iOS app. Work on fintech products with a focus on design excellence and user delight in a high-growth startup."
@@ -302,8 +338,10 @@ export const jobs: Job[] = [
     mode: "Remote",
     experience: "Fresher",
     skills: ["Docker", "Kubernetes", "AWS"],
+    niceToHaveSkills: ["Terraform", "Go"],
     source: "Naukri",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
+    expiresAt: "2026-12-01T09:00:00Z",
     salaryRange: "₹20k–₹28k/month Internship",
     applyUrl: "https://technova.in/careers/jobs/21",
     description: "Learn cloud infrastructure and DevOps practices. Work with CI/CD pipelines, containerization, and cloud platforms in a supportive learning environment."
@@ -316,8 +354,10 @@ export const jobs: Job[] = [
     mode: "Hybrid",
     experience: "Fresher",
     skills: ["Python", "TensorFlow", "NLP"],
+    niceToHaveSkills: ["PyTorch"],
     source: "Indeed",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
+    expiresAt: "2026-11-28T09:00:00Z",
     salaryRange: "₹30k–₹45k/month Internship",
     applyUrl: "https://datamind.ai/careers/jobs/22",
     description: "Build machine learning models for real-world applications. Work on NLP, computer vision, and recommendation systems with experienced ML engineers."
@@ -331,7 +371,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["React Native", "JavaScript", "Redux"],
     source: "LinkedIn",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "10–16 LPA",
     applyUrl: "https://groww.in/careers/jobs/23",
     description: "Develop cross-platform mobile apps for India's leading investment platform. Build features that help millions of users invest in stocks, mutual funds, and more."
@@ -345,7 +385,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Penetration Testing", "OWASP", "Python"],
     source: "Naukri",
-    postedDaysAgo: 8,
+    postedAt: "2026-10-11T09:00:00Z",
     salaryRange: "12–18 LPA",
     applyUrl: "https://www.getsimpl.com/careers/jobs/24",
     description: "Protect fintech systems from security threats. Conduct security audits, vulnerability assessments, and implement security best practices."
@@ -359,7 +399,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Figma", "UI/UX", "Prototyping"],
     source: "Indeed",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://zerodha.com/careers/jobs/25",
     description: "Design intuitive interfaces for India's largest stock broker. Work on products that simplify investing for millions of users with a focus on usability."
@@ -372,8 +412,9 @@ export const jobs: Job[] = [
     mode: "Hybrid",
     experience: "0-1",
     skills: ["Go", "Microservices", "Redis"],
+    niceToHaveSkills: ["Kubernetes", "Kafka"],
     source: "LinkedIn",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "8–12 LPA",
     applyUrl: "https://www.meesho.io/careers/jobs/26",
     description: "Build scalable systems for India's fastest growing e-commerce platform. Work on supply chain, logistics, and seller platform technologies."
@@ -387,7 +428,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Python", "Machine Learning", "SQL"],
     source: "Naukri",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "10–16 LPA",
     applyUrl: "https://www.olacabs.com/careers/jobs/27",
     description: "Analyze ride data to improve pricing, routing, and customer experience. Build predictive models for demand forecasting and driver allocation."
@@ -401,7 +442,8 @@ export const jobs: Job[] = [
     experience: "Fresher",
     skills: ["React", "Next.js", "Tailwind"],
     source: "Indeed",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
+    expiresAt: "2026-12-01T09:00:00Z",
     salaryRange: "₹25k–₹35k/month Internship",
     applyUrl: "https://www.dunzo.com/careers/jobs/28",
     description: "Build hyperlocal delivery app interfaces. Work on fast-paced projects with immediate impact on user experience and business metrics."
@@ -415,7 +457,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Solidity", "Ethereum", "Web3.js"],
     source: "LinkedIn",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "15–25 LPA",
     applyUrl: "https://polygon.technology/careers/jobs/29",
     description: "Build the future of Web3 on Ethereum's leading scaling solution. Work on smart contracts, DeFi protocols, and blockchain infrastructure."
@@ -429,7 +471,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Linux", "AWS", "Terraform"],
     source: "Naukri",
-    postedDaysAgo: 7,
+    postedAt: "2026-10-12T09:00:00Z",
     salaryRange: "12–18 LPA",
     applyUrl: "https://www.hotstar.com/careers/jobs/30",
     description: "Ensure 99.99% uptime for India's largest streaming platform. Work on infrastructure that handles millions of concurrent viewers during live sports."
@@ -443,7 +485,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Java", "Spring", "Hibernate"],
     source: "Indeed",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "4–6 LPA",
     applyUrl: "https://www.mindtree.com/careers/jobs/31",
     description: "Develop enterprise applications for global clients. Work with the latest Java technologies and frameworks in a collaborative team environment."
@@ -457,7 +499,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Python", "Django", "Flask"],
     source: "LinkedIn",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "4–7 LPA",
     applyUrl: "https://www.lntinfotech.com/careers/jobs/32",
     description: "Build Python-based solutions for diverse industry verticals. Work on data processing, automation, and web application development."
@@ -471,7 +513,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["AWS", "Azure", "DevOps"],
     source: "Naukri",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.hcltech.com/careers/jobs/33",
     description: "Design and implement cloud solutions for enterprise clients. Work with multi-cloud environments and modern infrastructure technologies."
@@ -485,7 +527,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Angular", "TypeScript", "RxJS"],
     source: "Indeed",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "7–12 LPA",
     applyUrl: "https://www.techmahindra.com/careers/jobs/34",
     description: "Build enterprise web applications using Angular framework. Work on large-scale projects for Fortune 500 companies across the globe."
@@ -499,7 +541,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Oracle", "SQL Server", "MongoDB"],
     source: "LinkedIn",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.mphasis.com/careers/jobs/35",
     description: "Manage and optimize database systems for high-performance applications. Ensure data integrity, security, and availability for critical business systems."
@@ -513,7 +555,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Flutter", "Dart", "Firebase"],
     source: "Naukri",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "4–7 LPA",
     applyUrl: "https://hexaware.com/careers/jobs/36",
     description: "Build cross-platform mobile applications using Flutter. Create beautiful, performant apps for iOS and Android with a single codebase."
@@ -527,7 +569,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["SQL", "Excel", "Power BI"],
     source: "Indeed",
-    postedDaysAgo: 8,
+    postedAt: "2026-10-11T09:00:00Z",
     salaryRange: "4–6 LPA",
     applyUrl: "https://www.genpact.com/careers/jobs/37",
     description: "Bridge the gap between business needs and technology solutions. Analyze data, create reports, and support digital transformation initiatives."
@@ -541,7 +583,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Networking", "Cisco", "TCP/IP"],
     source: "LinkedIn",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "5–8 LPA",
     applyUrl: "https://www.airtel.in/careers/jobs/38",
     description: "Maintain and optimize India's largest telecom network. Work on cutting-edge network technologies and ensure seamless connectivity for millions."
@@ -555,7 +597,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["SIEM", "Vulnerability Assessment", "Incident Response"],
     source: "Naukri",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "8–14 LPA",
     applyUrl: "https://www.jio.com/careers/jobs/39",
     description: "Protect digital infrastructure of India's largest digital services company. Monitor threats, respond to incidents, and implement security controls."
@@ -569,7 +611,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["HTML", "CSS", "JavaScript"],
     source: "Indeed",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "7–11 LPA",
     applyUrl: "https://www.makemytrip.com/careers/jobs/40",
     description: "Create engaging user interfaces for India's leading travel platform. Focus on performance, accessibility, and cross-browser compatibility."
@@ -583,7 +625,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Informatica", "SQL", "Data Warehousing"],
     source: "LinkedIn",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "8–13 LPA",
     applyUrl: "https://www.pwc.in/careers/jobs/41",
     description: "Build data integration solutions for enterprise clients. Design ETL pipelines and support business intelligence and analytics initiatives."
@@ -597,7 +639,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Apex", "Visualforce", "Lightning"],
     source: "Naukri",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
     salaryRange: "5–9 LPA",
     applyUrl: "https://www2.deloitte.com/in/careers/jobs/42",
     description: "Customize and extend Salesforce platforms for global clients. Work on CRM implementations, integrations, and custom application development."
@@ -611,7 +653,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["UiPath", "Automation Anywhere", "VBA"],
     source: "Indeed",
-    postedDaysAgo: 7,
+    postedAt: "2026-10-12T09:00:00Z",
     salaryRange: "5–8 LPA",
     applyUrl: "https://www.ey.com/en_in/careers/jobs/43",
     description: "Build robotic process automation solutions to streamline business operations. Identify automation opportunities and develop bots for repetitive tasks."
@@ -625,7 +667,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["SAP ABAP", "SAP FICO", "SAP MM"],
     source: "LinkedIn",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "8–14 LPA",
     applyUrl: "https://home.kpmg/in/en/home/careers/jobs/44",
     description: "Implement and customize SAP solutions for enterprise clients. Support digital transformation through ERP implementation and optimization."
@@ -639,7 +681,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["ServiceNow", "JavaScript", "ITIL"],
     source: "Naukri",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "4–7 LPA",
     applyUrl: "https://www.wns.com/careers/jobs/45",
     description: "Develop IT service management solutions on the ServiceNow platform. Build workflows, customize modules, and integrate with enterprise systems."
@@ -653,7 +695,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Power BI", "DAX", "SQL"],
     source: "Indeed",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.exlservice.com/careers/jobs/46",
     description: "Create interactive dashboards and reports using Power BI. Transform complex data into visual insights that drive business decisions."
@@ -667,7 +709,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Tableau", "SQL", "Data Visualization"],
     source: "LinkedIn",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "5–8 LPA",
     applyUrl: "https://www.mu-sigma.com/careers/jobs/47",
     description: "Build compelling data visualizations using Tableau. Help clients discover insights through interactive dashboards and storytelling with data."
@@ -681,7 +723,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Hadoop", "Spark", "Scala"],
     source: "Naukri",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "10–16 LPA",
     applyUrl: "https://fractal.ai/careers/jobs/48",
     description: "Build big data pipelines for AI and analytics solutions. Work with massive datasets and distributed computing frameworks."
@@ -695,7 +737,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["PyTorch", "CUDA", "Computer Vision"],
     source: "Indeed",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
     salaryRange: "15–25 LPA",
     applyUrl: "https://www.nvidia.com/en-in/about-nvidia/careers/jobs/49",
     description: "Work at the forefront of AI acceleration. Build and optimize deep learning models using NVIDIA's cutting-edge GPU technology."
@@ -709,7 +751,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["C", "C++", "Microcontrollers"],
     source: "LinkedIn",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.ti.com/careers/jobs/50",
     description: "Develop embedded software for semiconductor solutions. Work on firmware, drivers, and applications for analog and digital signal processing."
@@ -723,7 +765,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Unity", "C#", "Mobile Games"],
     source: "Naukri",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "8–14 LPA",
     applyUrl: "https://www.moonfroglabs.com/careers/jobs/51",
     description: "Create engaging mobile games played by millions. Work on hit titles like Ludo Club and Baahubali games in a creative, fast-paced environment."
@@ -737,7 +779,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["Unity", "ARKit", "ARCore"],
     source: "Indeed",
-    postedDaysAgo: 8,
+    postedAt: "2026-10-11T09:00:00Z",
     salaryRange: "5–9 LPA",
     applyUrl: "https://scapic.com/careers/jobs/52",
     description: "Build immersive augmented reality experiences. Work on AR commerce solutions that help customers visualize products in their space."
@@ -751,7 +793,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["MQTT", "Raspberry Pi", "Python"],
     source: "LinkedIn",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "8–13 LPA",
     applyUrl: "https://www.bosch.in/careers/jobs/53",
     description: "Develop Internet of Things solutions for smart manufacturing and connected devices. Work on sensor integration, edge computing, and IoT platforms."
@@ -765,7 +807,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["Selenium", "Cypress", "Java"],
     source: "Naukri",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "10–16 LPA",
     applyUrl: "https://www.browserstack.com/careers/jobs/54",
     description: "Build testing infrastructure used by millions of developers worldwide. Work on automated testing solutions for web and mobile applications."
@@ -779,7 +821,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["JMeter", "LoadRunner", "Gatling"],
     source: "Indeed",
-    postedDaysAgo: 6,
+    postedAt: "2026-10-13T09:00:00Z",
     salaryRange: "12–18 LPA",
     applyUrl: "https://www.gojek.io/careers/jobs/55",
     description: "Ensure systems can handle millions of transactions. Identify bottlenecks, optimize performance, and maintain reliability at scale."
@@ -793,7 +835,7 @@ export const jobs: Job[] = [
     experience: "0-1",
     skills: ["API Documentation", "Markdown", "Git"],
     source: "LinkedIn",
-    postedDaysAgo: 2,
+    postedAt: "2026-10-17T09:00:00Z",
     salaryRange: "6–10 LPA",
     applyUrl: "https://www.postman.com/careers/jobs/56",
     description: "Create world-class documentation for the API platform used by 20 million developers. Make complex technical concepts accessible and easy to understand."
@@ -807,7 +849,7 @@ export const jobs: Job[] = [
     experience: "1-3",
     skills: ["GraphQL", "JavaScript", "Public Speaking"],
     source: "Naukri",
-    postedDaysAgo: 5,
+    postedAt: "2026-10-14T09:00:00Z",
     salaryRange: "12–20 LPA",
     applyUrl: "https://hasura.io/careers/jobs/57",
     description: "Build and nurture the GraphQL developer community. Create content, speak at conferences, and help developers succeed with Hasura."
@@ -821,7 +863,7 @@ export const jobs: Job[] = [
     experience: "3-5",
     skills: ["Redis", "System Design", "Java"],
     source: "Indeed",
-    postedDaysAgo: 3,
+    postedAt: "2026-10-16T09:00:00Z",
     salaryRange: "20–35 LPA",
     applyUrl: "https://redis.com/careers/jobs/58",
     description: "Design high-performance solutions using Redis. Help enterprise customers architect systems that handle millions of operations per second."
@@ -835,7 +877,7 @@ export const jobs: Job[] = [
     experience: "3-5",
     skills: ["Java", "Distributed Systems", "AWS"],
     source: "LinkedIn",
-    postedDaysAgo: 1,
+    postedAt: "2026-10-18T09:00:00Z",
     salaryRange: "25–40 LPA",
     applyUrl: "https://www.atlassian.com/company/careers/jobs/59",
     description: "Lead technical initiatives for products used by millions of teams worldwide. Drive architecture decisions and mentor engineers while staying hands-on."
@@ -849,29 +891,63 @@ export const jobs: Job[] = [
     experience: "3-5",
     skills: ["React", "Node.js", "AI/ML"],
     source: "Naukri",
-    postedDaysAgo: 4,
+    postedAt: "2026-10-15T09:00:00Z",
     salaryRange: "30–50 LPA",
     applyUrl: "https://www.intuit.com/careers/jobs/60",
     description: "Shape the technical direction of products that power prosperity. Lead complex initiatives, drive innovation, and build systems that help millions manage their finances."
+  },
+  {
+    id: "61",
+    title: "Engineering Manager",
+    company: "Swiggy",
+    location: "Bangalore",
+    mode: "Hybrid",
+    experience: "5-8",
+    skills: ["Java", "Microservices", "Team Leadership"],
+    source: "LinkedIn",
+    postedAt: "2026-10-17T09:00:00Z",
+    salaryRange: "45–70 LPA",
+    applyUrl: "https://careers.swiggy.com/jobs/61",
+    description: "Lead a team of backend engineers building the ordering platform. Own delivery, hiring and technical direction for services that serve millions of orders a day."
+  },
+  {
+    id: "62",
+    title: "Senior Staff Engineer",
+    company: "Google",
+    location: "Hyderabad",
+    mode: "Onsite",
+    experience: "8+",
+    skills: ["Go", "Distributed Systems", "Kubernetes"],
+    source: "Indeed",
+    postedAt: "2026-10-16T09:00:00Z",
+    salaryRange: "70–110 LPA",
+    applyUrl: "https://careers.google.com/jobs/62",
+    description: "Set the technical strategy for large-scale infrastructure across several teams. Design systems that run across global data centres and mentor senior engineers."
   }
 ];
 
-export function getJobById(id: string): Job | undefined {
-  return jobs.find(job => job.id === id);
+/**
+ * Ids of every listing merged into this job, canonical first
+ */
+export function getListingIds(job: Job): string[] {
+  return [job.id, ...(job.alternateListings ?? []).map(listing => listing.id)];
 }
 
-export function getUniqueLocations(): string[] {
-  return Array.from(new Set(jobs.map(job => job.location))).sort();
+export function getUniqueLocations(list: Job[]): string[] {
+  return Array.from(new Set(list.map(job => job.location))).sort();
 }
 
-export function getUniqueModes(): string[] {
-  return Array.from(new Set(jobs.map(job => job.mode))).sort();
+export function getUniqueModes(list: Job[]): string[] {
+  return Array.from(new Set(list.map(job => job.mode))).sort();
 }
 
-export function getUniqueExperiences(): string[] {
-  return Array.from(new Set(jobs.map(job => job.experience))).sort();
+// Junior to senior, not alphabetical
+export function getUniqueExperiences(list: Job[]): string[] {
+  return JOB_EXPERIENCES.filter(level => list.some(job => job.experience === level));
 }
 
-export function getUniqueSources(): string[] {
-  return Array.from(new Set(jobs.map(job => job.source))).sort();
+export function getUniqueSources(list: Job[]): string[] {
+  return Array.from(
+    new Set(list.flatMap(job => [job.source, ...(job.alternateListings ?? []).map(listing => listing.source)]))
+  ).sort();
 }
@@ -0,0 +1,169 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Job } from "../../data/jobs";
+import { JobDetailPanel, SimilarJobs } from "../../components/jobs";
+import { findCatalogJob, loadCatalog } from "../../lib/catalogStore";
+import { getSource } from "../../lib/sources";
+import { formatJobSalary } from "../../lib/salary";
+import { formatExperience } from "../../lib/experience";
+import { formatPostedTime, isExpired } from "../../lib/jobDates";
+import { getSimilarJobs } from "../../lib/similarJobs";
+
+/**
+ * Job Detail Page
+ *
+ * Shareable, server-rendered page for one listing (/jobs/<id>).
+ * - Full description, skills and the other boards it is posted on
+ * - Metadata and Open Graph tags for link previews
+ * - Match score breakdown, status and history come from JobDetailPanel
+ * - Similar roles from the current catalog
+ * Ids of merged duplicate listings redirect to the canonical listing.
+ */
+
+interface JobPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const SITE_NAME = "Job Notification Tracker";
+
+function summarize(job: Job): string {
+  const summary = `${job.company} · ${job.location} · ${job.mode} · ${formatJobSalary(job)}. ${job.description}`;
+  return summary.length > 200 ? `${summary.slice(0, 197).trimEnd()}…` : summary;
+}
+
+export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const job = await findCatalogJob(id);
+  if (!job) {
+    return { title: `Job not found · ${SITE_NAME}` };
+  }
+
+  const title = `${job.title} at ${job.company}`;
+  const description = summarize(job);
+  return {
+    title: `${title} · ${SITE_NAME}`,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      siteName: SITE_NAME,
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function JobPage({ params }: JobPageProps) {
+  const { id } = await params;
+  const job = await findCatalogJob(id);
+  if (!job) notFound();
+  if (job.id !== id) redirect(`/jobs/${job.id}`);
+
+  const catalog = await loadCatalog();
+  const source = getSource(job.source);
+  const alternateListings = (job.alternateListings ?? []).filter(
+    (listing) => listing.source !== job.source
+  );
+  const details = [
+    { label: "Location", value: job.location },
+    { label: "Mode", value: job.mode },
+    { label: "Experience", value: formatExperience(job.experience) },
+    { label: "Salary", value: formatJobSalary(job) },
+    { label: "Source", value: source.name },
+    { label: "Posted", value: formatPostedTime(job) },
+  ];
+
+  return (
+    <div className="max-w-[1200px] mx-auto px-24 py-40">
+      <Link href="/dashboard" className="text-sm text-[#6B6B6B] hover:text-[#8B0000]">
+        ← Back to dashboard
+      </Link>
+
+      <div className="mt-24 mb-40">
+        <h1 className="font-serif text-[2.5rem] leading-[1.2] text-[#111111] mb-8">{job.title}</h1>
+        <p className="text-lg text-[#6B6B6B]">{job.company}</p>
+      </div>
+
+      {isExpired(job) && (
+        <div className="mb-24 px-16 py-12 bg-[#E8E6E1] rounded-[6px] text-sm text-[#6B6B6B]">
+          This listing has expired and is no longer shown on the dashboard.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-40">
+        {/* Job */}
+        <div className="lg:col-span-2 space-y-32">
+          <div className="flex flex-wrap gap-24">
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <span className="text-xs text-[#6B6B6B] uppercase tracking-wide">{detail.label}</span>
+                <p className="text-sm text-[#111111]">{detail.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {alternateListings.length > 0 && (
+            <div className="px-16 py-12 bg-white border border-[#D4D2CC] rounded-[6px] text-sm text-[#6B6B6B]">
+              Also on{" "}
+              {alternateListings.map((listing, index) => (
+                <span key={listing.id}>
+                  {index > 0 && ", "}
+                  <a
+                    href={listing.applyUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#8B0000] hover:underline"
+                  >
+                    {getSource(listing.source).name}
+                  </a>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <h2 className="font-serif text-xl text-[#111111] mb-12">Description</h2>
+            <p className="text-base text-[#6B6B6B] leading-relaxed whitespace-pre-line">{job.description}</p>
+          </div>
+
+          <div>
+            <h2 className="font-serif text-xl text-[#111111] mb-12">Required Skills</h2>
+            <div className="flex flex-wrap gap-8">
+              {job.skills.map((skill) => (
+                <span key={skill} className="px-16 py-8 text-sm bg-white border border-[#E8E6E1] text-[#111111] rounded-[6px]">
+                  {skill}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {job.niceToHaveSkills && job.niceToHaveSkills.length > 0 && (
+            <div>
+              <h2 className="font-serif text-xl text-[#111111] mb-12">Nice to Have</h2>
+              <div className="flex flex-wrap gap-8">
+                {job.niceToHaveSkills.map((skill) => (
+                  <span key={skill} className="px-16 py-8 text-sm border border-[#E8E6E1] text-[#6B6B6B] rounded-[6px]">
+                    {skill}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h2 className="font-serif text-xl text-[#111111] mb-12">Similar Roles</h2>
+            <SimilarJobs job={job} suggestions={getSimilarJobs(job, catalog)} />
+          </div>
+        </div>
+
+        {/* You */}
+        <JobDetailPanel job={job} catalog={catalog} />
+      </div>
+    </div>
+  );
+}
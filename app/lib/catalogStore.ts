@@ -0,0 +1,110 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Job, seedJobs, getListingIds } from "../data/jobs";
+import { v, jobSchema, validate, formatIssues } from "./validation";
+import { dedupeJobs } from "./dedupe";
+
+/**
+ * Catalog Store (server only)
+ *
+ * Persists imported listings to app/data/importedJobs.json and loads the
+ * full catalog (built-in plus imported) from disk on every request, so
+ * pages and API routes see imports without a rebuild.
+ * Used by the API routes, the server pages and the import scripts.
+ */
+
+export const IMPORTED_JOBS_FILE = path.join(process.cwd(), "app", "data", "importedJobs.json");
+
+export interface CatalogMergeResult {
+  added: number;
+  updated: number;
+  skipped: { id: string; reason: string }[];
+}
+
+/**
+ * Read imported listings from disk
+ * Returns empty array if the file does not exist yet; invalid listings are dropped
+ */
+export async function readImportedJobs(): Promise<Job[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(IMPORTED_JOBS_FILE, "utf8"));
+  } catch {
+    return [];
+  }
+
+  const { value, issues } = validate(v.array(jobSchema), parsed, "importedJobs");
+  if (issues.length > 0) {
+    console.warn(`[catalog] repaired ${IMPORTED_JOBS_FILE}:\n${formatIssues(issues)}`);
+  }
+  return value ?? [];
+}
+
+/**
+ * Load the full catalog fresh from disk
+ * Sees imports made since the server started.
+ */
+export async function loadCatalog(): Promise<Job[]> {
+  return dedupeJobs([...seedJobs, ...(await readImportedJobs())]);
+}
+
+/**
+ * Find a listing in the fresh catalog by its id or any merged listing's id
+ */
+export async function findCatalogJob(id: string): Promise<Job | undefined> {
+  const catalog = await loadCatalog();
+  return catalog.find((job) => getListingIds(job).includes(id));
+}
+
+// Tail of the pending merges; each read-modify-write waits for the one before
+let mergeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Merge listings into the persisted catalog
+ * Existing imported listings with the same id are replaced;
+ * ids used by built-in listings are skipped.
+ * Merges in this process run one at a time, so concurrent imports
+ * cannot overwrite each other's listings.
+ */
+export function mergeIntoCatalog(incoming: Job[]): Promise<CatalogMergeResult> {
+  const merge = mergeQueue.then(() => writeMerge(incoming));
+  // A failed merge must not block the ones queued after it
+  mergeQueue = merge.catch(() => undefined);
+  return merge;
+}
+
+async function writeMerge(incoming: Job[]): Promise<CatalogMergeResult> {
+  const existing = await readImportedJobs();
+  const seedIds = new Set(seedJobs.map((job) => job.id));
+  const byId = new Map(existing.map((job) => [job.id, job]));
+  const result: CatalogMergeResult = { added: 0, updated: 0, skipped: [] };
+
+  for (const job of incoming) {
+    if (seedIds.has(job.id)) {
+      result.skipped.push({ id: job.id, reason: "id is used by a built-in listing" });
+      continue;
+    }
+    if (byId.has(job.id)) {
+      result.updated++;
+    } else {
+      result.added++;
+    }
+    byId.set(job.id, job);
+  }
+
+  if (result.added > 0 || result.updated > 0) {
+    const merged = Array.from(byId.values());
+    // Write a temp file and rename it over the old one, so a reader never
+    // sees a half-written file and a failed write leaves the old one intact
+    const tempFile = `${IMPORTED_JOBS_FILE}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(merged, null, 2) + "\n");
+      await fs.rename(tempFile, IMPORTED_JOBS_FILE);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,280 @@
+import { Job, JOB_MODES, JOB_EXPERIENCES } from "../data/jobs";
+import { jobSchema, validate } from "./validation";
+import { resolveSourceId } from "./sources";
+import { checkTimestamp, daysAgoToTimestamp } from "./jobDates";
+import { parseSkillList } from "./skills";
+import { normalizeLocation } from "./locations";
+
+/**
+ * CSV Import
+ *
+ * Maps spreadsheet rows onto the Job interface.
+ * - Header names are matched case-insensitively, ignoring spaces/underscores
+ *   (e.g. "Posted At", "posted_at" → postedAt)
+ * - Rows are validated with jobSchema (mode / experience unions, registered
+ *   source id or name, apply URL format, ISO postedAt / expiresAt dates)
+ * - Older sheets with a postedDaysAgo column are converted relative to the
+ *   import time; rows without a post date are treated as posted at import
+ * - skills are split on commas, semicolons or pipes and mapped to their
+ *   canonical names ("reactjs" → React, see app/lib/skills.ts); the optional
+ *   niceToHaveSkills column is split the same way
+ * - locations are mapped to canonical city names ("Bengaluru" → Bangalore)
+ * - Every invalid row is reported with its line number instead of failing silently
+ */
+
+export interface CsvRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface CsvImportReport {
+  jobs: Job[];
+  errors: CsvRowError[];
+  rowCount: number;
+}
+
+// postedDaysAgo is a legacy column, converted into postedAt
+type JobField = keyof Job | "postedDaysAgo";
+
+const REQUIRED_COLUMNS: JobField[] = [
+  "title",
+  "company",
+  "location",
+  "mode",
+  "experience",
+  "source",
+  "applyUrl",
+];
+
+const KNOWN_COLUMNS: JobField[] = [
+  "id",
+  ...REQUIRED_COLUMNS,
+  "skills",
+  "niceToHaveSkills",
+  "postedAt",
+  "expiresAt",
+  "postedDaysAgo",
+  "salaryRange",
+  "description",
+];
+
+// Extra header spellings seen in our sourcing sheets
+const COLUMN_ALIASES: Record<string, JobField> = {
+  role: "title",
+  jobtitle: "title",
+  city: "location",
+  workmode: "mode",
+  url: "applyUrl",
+  link: "applyUrl",
+  salary: "salaryRange",
+  board: "source",
+  posted: "postedAt",
+  posteddate: "postedAt",
+  expires: "expiresAt",
+  expirydate: "expiresAt",
+  deadline: "expiresAt",
+  requiredskills: "skills",
+  musthave: "skills",
+  nicetohave: "niceToHaveSkills",
+  preferredskills: "niceToHaveSkills",
+  optionalskills: "niceToHaveSkills",
+};
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes,
+ * newlines inside quotes). Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim().length > 0));
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Map header cells to Job fields; unknown columns map to null and are ignored
+ */
+function mapHeaders(headers: string[]): (JobField | null)[] {
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const direct = KNOWN_COLUMNS.find((field) => field.toLowerCase() === normalized);
+    return direct ?? COLUMN_ALIASES[normalized] ?? null;
+  });
+}
+
+/**
+ * Find an allowed union value, case-insensitively
+ * Unknown values pass through unchanged so the schema reports them.
+ */
+function matchUnion(value: string, allowed: readonly string[]): string {
+  const lower = value.toLowerCase();
+  return allowed.find((option) => option.toLowerCase() === lower) ?? value;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Normalize valid dates ("2026-10-15") to full ISO timestamps
+ * Invalid text passes through unchanged so the schema reports it.
+ */
+function toTimestamp(value: string): string {
+  return checkTimestamp(value) ? value : new Date(value).toISOString();
+}
+
+/**
+ * Convert one CSV record into a Job
+ * Cells are coerced (case, numbers, skill lists, defaults) and then checked
+ * against jobSchema; any issue, even a repairable one, fails the row.
+ */
+function rowToJob(
+  record: Partial<Record<JobField, string>>,
+  rowNumber: number,
+  now: Date
+): { job?: Job; errors: CsvRowError[] } {
+  const errors: CsvRowError[] = [];
+
+  for (const field of REQUIRED_COLUMNS) {
+    if (!record[field]) {
+      errors.push({ row: rowNumber, field, message: `${field} is required` });
+    }
+  }
+  if (record.postedDaysAgo && !record.postedAt && !/^\d+$/.test(record.postedDaysAgo)) {
+    errors.push({
+      row: rowNumber,
+      field: "postedDaysAgo",
+      message: `expected whole number, got "${record.postedDaysAgo}"`,
+    });
+  }
+  if (errors.length > 0) return { errors };
+
+  const postedAt = record.postedAt
+    ? toTimestamp(record.postedAt)
+    : daysAgoToTimestamp(parseInt(record.postedDaysAgo || "0"), now);
+  const raw = {
+    id: record.id || `csv-${slugify(`${record.company} ${record.title} ${record.location}`)}`,
+    title: record.title,
+    company: record.company,
+    location: normalizeLocation(record.location!),
+    mode: matchUnion(record.mode!, JOB_MODES),
+    experience: matchUnion(record.experience!.replace(/\s*years?$/i, ""), JOB_EXPERIENCES),
+    skills: parseSkillList(record.skills ?? ""),
+    niceToHaveSkills: record.niceToHaveSkills ? parseSkillList(record.niceToHaveSkills) : undefined,
+    source: resolveSourceId(record.source!) ?? record.source,
+    postedAt,
+    expiresAt: record.expiresAt ? toTimestamp(record.expiresAt) : undefined,
+    salaryRange: record.salaryRange || "Not disclosed",
+    applyUrl: record.applyUrl,
+    description: record.description ?? "",
+  };
+
+  const { value, issues } = validate(jobSchema, raw);
+  for (const issue of issues) {
+    errors.push({
+      row: rowNumber,
+      field: issue.path.replace(/\[\d+\]$/, ""),
+      message: issue.message.replace(" (using default)", ""),
+    });
+  }
+
+  return errors.length > 0 ? { errors } : { errors, job: value };
+}
+
+/**
+ * Import jobs from CSV text
+ * Row numbers in the report match spreadsheet line numbers (header = row 1).
+ */
+export function importJobsFromCsv(text: string, now: Date = new Date()): CsvImportReport {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { jobs: [], errors: [{ row: 1, message: "File is empty" }], rowCount: 0 };
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const columns = mapHeaders(headerRow);
+  const missing = REQUIRED_COLUMNS.filter((field) => !columns.includes(field));
+  if (missing.length > 0) {
+    return {
+      jobs: [],
+      errors: [{ row: 1, message: `Missing required column(s): ${missing.join(", ")}` }],
+      rowCount: dataRows.length,
+    };
+  }
+
+  const jobs: Job[] = [];
+  const errors: CsvRowError[] = [];
+  const seenIds = new Set<string>();
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const record: Partial<Record<JobField, string>> = {};
+    columns.forEach((field, col) => {
+      if (field) record[field] = (cells[col] ?? "").trim();
+    });
+
+    const result = rowToJob(record, rowNumber, now);
+    errors.push(...result.errors);
+    if (!result.job) return;
+
+    if (seenIds.has(result.job.id)) {
+      errors.push({ row: rowNumber, field: "id", message: `Duplicate id "${result.job.id}" in file` });
+      return;
+    }
+    seenIds.add(result.job.id);
+    jobs.push(result.job);
+  });
+
+  return { jobs, errors, rowCount: dataRows.length };
+}
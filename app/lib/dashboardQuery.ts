@@ -0,0 +1,197 @@
+import { Job, getListingIds, getUniqueLocations, getUniqueModes, getUniqueExperiences, getUniqueSources } from "../data/jobs";
+import type { JobStatus } from "../components/jobs/JobCard";
+import { MatchScoreResult, Preferences, SkillCoverage, getSkillCoverage, preferencesSchema } from "./matchScore";
+import { scoreJob } from "./scorers";
+import { parseSkillList } from "./skills";
+import { formatExclusionMatch } from "./exclusions";
+import { SALARY_BANDS, meetsSalaryFloor } from "./salary";
+import { getActiveJobs } from "./jobDates";
+import { getLocationOptions } from "./locations";
+import { LearnedModel, learnedModelSchema } from "./feedback";
+import { JOB_STATUSES, jobStatusesSchema } from "./jobStatus";
+import { Schema, v } from "./validation";
+import {
+  DEFAULT_PAGE_SIZE,
+  JobFilters,
+  JobQueryResult,
+  MAX_PAGE_SIZE,
+  SORT_OPTIONS,
+  filterJobs,
+  sortJobs,
+} from "./jobQuery";
+
+/**
+ * Dashboard Query
+ *
+ * The dashboard list, worked out on the server (POST /api/jobs) so the
+ * browser only ever receives one page of listings. Preferences, the learned
+ * model and job statuses live in the browser, so the request carries them.
+ * - Active jobs are scored (match score, skill coverage, exclusions)
+ * - Toggles: only matches above the threshold, only jobs meeting the salary
+ *   floor; then the FilterBar filters and the status filter
+ * - Jobs hidden by exclusion rules are counted after every other filter (so
+ *   the "N hidden" toggle reveals exactly these) and left out unless showHidden
+ * - Sorted and paged like GET /api/jobs
+ * With jobIds only those listings are scored, for a job opened outside the
+ * current page (a similar role in the modal).
+ */
+
+export interface DashboardFilters extends JobFilters {
+  status: JobStatus | "";
+}
+
+export interface DashboardRequest {
+  filters: DashboardFilters;
+  page: number;
+  pageSize: number;
+  // Without preferences nothing is scored
+  preferences?: Preferences;
+  learnedModel: LearnedModel;
+  statuses: Record<string, JobStatus>;
+  onlyMatches: boolean;
+  meetsSalaryFloor: boolean;
+  showHidden: boolean;
+  // Only these listings (any merged listing id matches)
+  jobIds?: string[];
+}
+
+export interface DashboardJob extends Job {
+  match?: MatchScoreResult;
+  matchScore?: number;
+  skillCoverage?: SkillCoverage;
+  exclusions: string[];
+  hidden: boolean;
+}
+
+export interface DashboardOptions {
+  locations: string[];
+  regions: string[];
+  modes: string[];
+  experiences: string[];
+  sources: string[];
+}
+
+export interface DashboardResult extends JobQueryResult {
+  jobs: DashboardJob[];
+  // Active jobs before any filter
+  activeTotal: number;
+  hiddenCount: number;
+  options: DashboardOptions;
+}
+
+// Null or missing means "not set"
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (input, path, issues) => (input === undefined || input === null ? undefined : schema(input, path, issues));
+}
+
+export const dashboardRequestSchema = v.object<DashboardRequest>({
+  filters: v.object<DashboardFilters>({
+    keyword: v.string({ fallback: "" }),
+    location: v.string({ fallback: "" }),
+    mode: v.string({ fallback: "" }),
+    experience: v.string({ fallback: "" }),
+    source: v.string({ fallback: "" }),
+    salary: v.string({
+      fallback: "",
+      check: (band) => (!band || SALARY_BANDS.some(({ id }) => id === band) ? undefined : `unknown salary band "${band}"`),
+    }),
+    status: v.oneOf(["", ...JOB_STATUSES], { fallback: "" }),
+    sort: v.oneOf(SORT_OPTIONS, { fallback: "latest" }),
+  }),
+  page: v.number({ min: 1, integer: true, fallback: 1 }),
+  pageSize: v.number({ min: 1, max: MAX_PAGE_SIZE, integer: true, fallback: DEFAULT_PAGE_SIZE }),
+  preferences: optional(preferencesSchema),
+  learnedModel: learnedModelSchema,
+  statuses: jobStatusesSchema,
+  onlyMatches: v.boolean({ fallback: false }),
+  meetsSalaryFloor: v.boolean({ fallback: false }),
+  showHidden: v.boolean({ fallback: false }),
+  jobIds: v.array(v.string(), { optional: true }),
+});
+
+function scoreListing(job: Job, list: Job[], request: DashboardRequest, hasSkills: boolean): DashboardJob {
+  const { preferences, learnedModel } = request;
+  if (!preferences) {
+    return { ...job, exclusions: [], hidden: false };
+  }
+  const match = scoreJob(job, list, preferences, learnedModel);
+  return {
+    ...job,
+    match,
+    matchScore: match.score,
+    skillCoverage: hasSkills ? getSkillCoverage(job, preferences.skills) : undefined,
+    exclusions: match.exclusions.map(formatExclusionMatch),
+    hidden: match.hidden,
+  };
+}
+
+/**
+ * FilterBar choices for a catalog
+ */
+export function getDashboardOptions(list: Job[]): DashboardOptions {
+  const { regions, cities } = getLocationOptions(getUniqueLocations(list));
+  return {
+    locations: cities,
+    regions,
+    modes: getUniqueModes(list),
+    experiences: getUniqueExperiences(list),
+    sources: getUniqueSources(list),
+  };
+}
+
+/**
+ * Score, filter, sort and page the catalog for one dashboard view
+ */
+export function queryDashboard(list: Job[], request: DashboardRequest): DashboardResult {
+  const { filters, preferences } = request;
+  const activeJobs = getActiveJobs(list);
+  const { jobIds } = request;
+  const candidates = jobIds
+    ? activeJobs.filter((job) => getListingIds(job).some((id) => jobIds.includes(id)))
+    : activeJobs;
+  const hasSkills = preferences ? parseSkillList(preferences.skills).length > 0 : false;
+  let result = candidates.map((job) => scoreListing(job, list, request, hasSkills));
+
+  // Match score threshold toggle
+  if (request.onlyMatches && preferences) {
+    result = result.filter((job) => (job.matchScore ?? 0) >= preferences.minMatchScore);
+  }
+
+  // Salary floor toggle: undisclosed salaries are left out too
+  if (request.meetsSalaryFloor && preferences && preferences.salaryFloor.amount > 0) {
+    const floor = preferences.salaryFloor;
+    result = result.filter((job) => meetsSalaryFloor(job, floor) === true);
+  }
+
+  // FilterBar filters
+  result = filterJobs(result, filters, list);
+
+  // Status filter (AND logic with all other filters)
+  if (filters.status) {
+    result = result.filter((job) => (request.statuses[job.id] || "Not Applied") === filters.status);
+  }
+
+  // Exclusion rules, counted after every other filter so the toggle reveals exactly these
+  const hiddenCount = result.filter((job) => job.hidden).length;
+  if (!request.showHidden) {
+    result = result.filter((job) => !job.hidden);
+  }
+
+  result = sortJobs(result, filters.sort, list, filters.keyword, preferences?.recencyHalfLifeDays);
+
+  const totalPages = Math.max(1, Math.ceil(result.length / request.pageSize));
+  const page = Math.min(request.page, totalPages);
+  const start = (page - 1) * request.pageSize;
+
+  return {
+    jobs: result.slice(start, start + request.pageSize),
+    total: result.length,
+    catalogTotal: list.length,
+    activeTotal: activeJobs.length,
+    page,
+    pageSize: request.pageSize,
+    totalPages,
+    hiddenCount,
+    options: getDashboardOptions(list),
+  };
+}
@@ -0,0 +1,189 @@
+import type { Job, JobListing } from "../data/jobs";
+import { getSource } from "./sources";
+import { compareByPostedAt } from "./jobDates";
+import { normalizeSkills } from "./skills";
+import { normalizeLocation } from "./locations";
+
+/**
+ * Cross-source Deduplication
+ *
+ * The same role is often posted on several boards with slightly different
+ * titles ("Junior Backend Developer" vs "Backend Developer (Junior)").
+ * Two listings are duplicates when:
+ * - they come from different boards (two postings on one board are two openings)
+ * - company names match after dropping suffixes like "Pvt Ltd" (fuzzy)
+ * - normalized titles share most of their tokens
+ * - locations are the same city ("Gurugram" is Gurgaon)
+ *
+ * Duplicates merge into one canonical listing that keeps every other board's
+ * applyUrl in alternateListings, the union of (canonical) skills and the
+ * latest post date. A skill any board lists as a must-have stays a must-have.
+ * The merged listing only expires once every board's listing has expired.
+ */
+
+const COMPANY_SUFFIXES = /\b(private|pvt|limited|ltd|inc|llp|corp(oration)?|technologies|technology|tech|solutions|india|co)\b/g;
+
+const TITLE_SYNONYMS: Record<string, string> = {
+  sde: "software development engineer",
+  swe: "software engineer",
+  sr: "senior",
+  jr: "junior",
+  dev: "engineer",
+  developer: "engineer",
+  engg: "engineer",
+  eng: "engineer",
+  fe: "frontend",
+  "front-end": "frontend",
+  be: "backend",
+  "back-end": "backend",
+  "full-stack": "fullstack",
+  qa: "quality assurance",
+  ml: "machine learning",
+};
+
+const COMPANY_THRESHOLD = 0.85;
+const TITLE_THRESHOLD = 0.75;
+
+export function normalizeCompany(company: string): string {
+  return company
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(COMPANY_SUFFIXES, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Title tokens with abbreviations expanded and experience hints like "(0-1)" dropped
+ */
+export function normalizeTitleTokens(title: string): Set<string> {
+  const tokens = title
+    .toLowerCase()
+    .replace(/[()[\],/|]/g, " ")
+    .split(/\s+/)
+    .flatMap((token) => (TITLE_SYNONYMS[token] ?? token).split(" "))
+    .map((token) => token.replace(/[^a-z0-9+#]/g, ""))
+    .filter((token) => token.length > 0 && !/^\d+$/.test(token));
+  return new Set(tokens);
+}
+
+function locationKey(location: string): string {
+  return normalizeLocation(location).toLowerCase();
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Sørensen–Dice similarity over character bigrams (tolerates typos)
+ */
+function dice(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  right.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+}
+
+export function isDuplicateListing(a: Job, b: Job): boolean {
+  if (a.source === b.source) return false;
+  if (locationKey(a.location) !== locationKey(b.location)) return false;
+  if (dice(normalizeCompany(a.company), normalizeCompany(b.company)) < COMPANY_THRESHOLD) return false;
+  return jaccard(normalizeTitleTokens(a.title), normalizeTitleTokens(b.title)) >= TITLE_THRESHOLD;
+}
+
+/**
+ * The first listing in catalog order stays canonical so its id (and any saved
+ * status) is stable when a duplicate arrives later from another board
+ */
+function mergeGroup(group: Job[]): Job {
+  const [canonical, ...others] = group;
+  if (others.length === 0) return canonical;
+
+  const alternateListings: JobListing[] = [
+    ...(canonical.alternateListings ?? []),
+    ...others.flatMap((job) => [
+      { id: job.id, source: job.source, applyUrl: job.applyUrl },
+      ...(job.alternateListings ?? []),
+    ]),
+  ];
+
+  const skills = normalizeSkills(group.flatMap((job) => job.skills));
+  const niceToHaveSkills = normalizeSkills(group.flatMap((job) => job.niceToHaveSkills ?? [])).filter(
+    (skill) => !skills.includes(skill)
+  );
+
+  return {
+    ...canonical,
+    skills,
+    niceToHaveSkills: niceToHaveSkills.length > 0 ? niceToHaveSkills : undefined,
+    postedAt: [...group].sort(compareByPostedAt)[0].postedAt,
+    expiresAt: group.every((job) => job.expiresAt)
+      ? group.map((job) => job.expiresAt as string).sort((a, b) => Date.parse(b) - Date.parse(a))[0]
+      : undefined,
+    description: group.reduce(
+      (longest, job) => (job.description.length > longest.length ? job.description : longest),
+      canonical.description
+    ),
+    alternateListings,
+  };
+}
+
+/**
+ * Display names of the other boards a merged listing was also posted on
+ */
+export function getAlsoOnSourceNames(job: Job): string[] {
+  const others = (job.alternateListings ?? [])
+    .map((listing) => listing.source)
+    .filter((source) => source !== job.source);
+  return Array.from(new Set(others)).map((source) => getSource(source).name);
+}
+
+/**
+ * Merge cross-source duplicates, keeping catalog order of the first listing in each group
+ */
+export function dedupeJobs(list: Job[]): Job[] {
+  const groups: Job[][] = [];
+
+  for (const job of list) {
+    // A group holds at most one listing per board
+    const group = groups.find(
+      (candidates) =>
+        candidates.every((existing) => existing.source !== job.source) &&
+        candidates.some((existing) => isDuplicateListing(existing, job))
+    );
+    if (group) {
+      group.push(job);
+    } else {
+      groups.push([job]);
+    }
+  }
+
+  return groups.map(mergeGroup);
+}
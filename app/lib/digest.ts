@@ -0,0 +1,85 @@
+import { Job } from "../data/jobs";
+import { Preferences } from "./matchScore";
+import { scoreJob } from "./scorers";
+import { getActiveJobs } from "./jobDates";
+import { DEFAULT_HALF_LIFE_DAYS, compareByFreshness } from "./recency";
+import { v, jobShape, readStorage } from "./validation";
+import { loadLearnedModel } from "./feedback";
+
+/**
+ * Daily Digest
+ *
+ * Top 10 active (unexpired) jobs by freshness-weighted match score (see
+ * app/lib/recency.ts), so a fresh good match beats a stale slightly better one.
+ * Jobs hidden by the user's exclusion rules never make the digest.
+ * Scores include what was learned from the user's feedback.
+ * Persisted in localStorage under one key per day; jobs that expire later
+ * that day drop out when it is loaded again.
+ */
+
+export interface DigestJob extends Job {
+  matchScore: number;
+}
+
+export interface DigestData {
+  date: string;
+  jobs: DigestJob[];
+  generatedAt: string;
+}
+
+export const digestSchema = v.object<DigestData>({
+  date: v.string({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: "expected YYYY-MM-DD" }),
+  jobs: v.array(
+    v.object<DigestJob>({
+      ...jobShape,
+      matchScore: v.number({ min: 0, max: 100, fallback: 0 }),
+    })
+  ),
+  generatedAt: v.string({ fallback: "" }),
+});
+
+function getTodayKey(): string {
+  const today = new Date();
+  return `jobTrackerDigest_${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
+}
+
+export function generateDigest(preferences: Preferences | null, catalog: Job[]): DigestData {
+  const today = new Date();
+  const model = loadLearnedModel();
+  
+  // Calculate match scores for all jobs, dropping those hidden by exclusion rules
+  const jobsWithScores = getActiveJobs(catalog).flatMap((job) => {
+    const match = preferences ? scoreJob(job, catalog, preferences, model) : undefined;
+    return match?.hidden ? [] : [{ ...job, matchScore: match?.score ?? 0 }];
+  });
+
+  // Sort: freshness-weighted matchScore desc, then newest first
+  const halfLifeDays = preferences?.recencyHalfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const sortedJobs = jobsWithScores.sort((a, b) => compareByFreshness(a, b, halfLifeDays));
+
+  // Take top 10
+  const topJobs = sortedJobs.slice(0, 10);
+
+  return {
+    date: today.toISOString().split("T")[0],
+    jobs: topJobs,
+    generatedAt: today.toISOString(),
+  };
+}
+
+/**
+ * Load today's digest from localStorage
+ * Returns null if none was generated today or it is unreadable
+ */
+export function loadTodayDigest(): DigestData | null {
+  const digest = readStorage<DigestData | null>(getTodayKey(), digestSchema, null);
+  return digest ? { ...digest, jobs: getActiveJobs(digest.jobs) } : null;
+}
+
+/**
+ * Save today's digest to localStorage
+ */
+export function saveTodayDigest(digest: DigestData): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(getTodayKey(), JSON.stringify(digest));
+}
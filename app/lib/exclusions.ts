@@ -0,0 +1,115 @@
+import type { Job } from "../data/jobs";
+import { v } from "./validation";
+import { normalizeCompany } from "./dedupe";
+import { getSource } from "./sources";
+import { normalizeSkills, parseSkillList, skillCovers } from "./skills";
+import { isInLocation } from "./locations";
+import { escapeRegExp, splitList } from "./text";
+
+/**
+ * Exclusion Rules
+ *
+ * Deal-breakers: what the user never wants to see.
+ * - companies: fuzzy company names ("Wipro" also excludes "Wipro Ltd")
+ * - titleKeywords: whole words in the title ("Sales" does not hit "Salesforce")
+ * - skills: required skills via the taxonomy (excluding "Frontend" excludes React)
+ * - locations: cities or regions ("Delhi NCR"), see app/lib/locations.ts
+ * - modes: exact values
+ * - sources: only when every board the job is posted on is excluded
+ * An excluded job is either hidden or loses `penalty` points of match score.
+ */
+
+export interface ExclusionRules {
+  // Comma-separated
+  companies: string;
+  titleKeywords: string;
+  skills: string;
+  locations: string[];
+  modes: string[];
+  sources: string[];
+  action: "hide" | "penalty";
+  // Match score points taken off when action is "penalty"
+  penalty: number;
+}
+
+export const EXCLUSION_ACTIONS: ExclusionRules["action"][] = ["hide", "penalty"];
+
+export const DEFAULT_EXCLUSIONS: ExclusionRules = {
+  companies: "",
+  titleKeywords: "",
+  skills: "",
+  locations: [],
+  modes: [],
+  sources: [],
+  action: "hide",
+  penalty: 30,
+};
+
+export const exclusionsSchema = v.object<ExclusionRules>(
+  {
+    companies: v.string({ fallback: DEFAULT_EXCLUSIONS.companies }),
+    titleKeywords: v.string({ fallback: DEFAULT_EXCLUSIONS.titleKeywords }),
+    skills: v.string({ fallback: DEFAULT_EXCLUSIONS.skills }),
+    locations: v.array(v.string(), { fallback: DEFAULT_EXCLUSIONS.locations }),
+    modes: v.array(v.string(), { fallback: DEFAULT_EXCLUSIONS.modes }),
+    sources: v.array(v.string(), { fallback: DEFAULT_EXCLUSIONS.sources }),
+    action: v.oneOf(EXCLUSION_ACTIONS, { fallback: DEFAULT_EXCLUSIONS.action }),
+    penalty: v.number({ min: 0, max: 100, integer: true, fallback: DEFAULT_EXCLUSIONS.penalty }),
+  },
+  { fallback: DEFAULT_EXCLUSIONS }
+);
+
+export interface ExclusionMatch {
+  rule: "company" | "titleKeyword" | "skill" | "location" | "mode" | "source";
+  value: string;
+}
+
+const RULE_LABELS: Record<ExclusionMatch["rule"], string> = {
+  company: "Company",
+  titleKeyword: "Title",
+  skill: "Skill",
+  location: "Location",
+  mode: "Mode",
+  source: "Source",
+};
+
+/**
+ * Every rule a job breaks; empty when it is not excluded
+ */
+export function getExclusionMatches(job: Job, rules: ExclusionRules): ExclusionMatch[] {
+  const matches: ExclusionMatch[] = [];
+  const company = normalizeCompany(job.company);
+
+  for (const excluded of splitList(rules.companies)) {
+    if (normalizeCompany(excluded) === company) matches.push({ rule: "company", value: job.company });
+  }
+  for (const keyword of splitList(rules.titleKeywords)) {
+    if (new RegExp(`(^|\\W)${escapeRegExp(keyword)}(?=$|\\W)`, "i").test(job.title)) {
+      matches.push({ rule: "titleKeyword", value: keyword });
+    }
+  }
+  const excludedSkills = parseSkillList(rules.skills);
+  for (const skill of normalizeSkills(job.skills)) {
+    if (excludedSkills.some((excluded) => skillCovers(skill, excluded))) {
+      matches.push({ rule: "skill", value: skill });
+    }
+  }
+  if (rules.locations.some((place) => isInLocation(job.location, place))) {
+    matches.push({ rule: "location", value: job.location });
+  }
+  if (rules.modes.includes(job.mode)) matches.push({ rule: "mode", value: job.mode });
+
+  const boards = [job.source, ...(job.alternateListings ?? []).map((listing) => listing.source)];
+  if (boards.every((board) => rules.sources.includes(board))) {
+    matches.push({ rule: "source", value: getSource(job.source).name });
+  }
+
+  return matches;
+}
+
+/**
+ * "Company: Infosys", "Title: Sales"
+ */
+export function formatExclusionMatch(match: ExclusionMatch): string {
+  return `${RULE_LABELS[match.rule]}: ${match.value}`;
+}
@@ -0,0 +1,67 @@
+import { Job, JOB_EXPERIENCES } from "../data/jobs";
+
+/**
+ * Experience Levels
+ *
+ * job.experience and preferences.experienceLevel are ids of ordered year
+ * ranges ("Fresher" is 0 years, "8+" is open-ended), so levels can be
+ * compared instead of only checked for equality:
+ * - same level: full credit
+ * - job one level below yours (you are a little overqualified): 75%
+ * - job one level above yours (a stretch role): 50%
+ * - anything further apart: nothing
+ */
+
+export type ExperienceLevelId = Job["experience"];
+
+export interface ExperienceLevel {
+  id: ExperienceLevelId;
+  label: string;
+  // Years, max exclusive ("Fresher" is the empty range at 0)
+  min: number;
+  max: number;
+}
+
+export const EXPERIENCE_LEVELS: ExperienceLevel[] = [
+  { id: "Fresher", label: "Fresher", min: 0, max: 0 },
+  { id: "0-1", label: "0-1 years", min: 0, max: 1 },
+  { id: "1-3", label: "1-3 years", min: 1, max: 3 },
+  { id: "3-5", label: "3-5 years", min: 3, max: 5 },
+  { id: "5-8", label: "5-8 years", min: 5, max: 8 },
+  { id: "8+", label: "8+ years", min: 8, max: Infinity },
+];
+
+const OVERQUALIFIED_CREDIT = 0.75;
+const STRETCH_CREDIT = 0.5;
+
+export function getExperienceLevel(id: string): ExperienceLevel | undefined {
+  return EXPERIENCE_LEVELS.find((level) => level.id === id);
+}
+
+/**
+ * "Fresher", "1-3 years", "8+ years"
+ */
+export function formatExperience(id: string): string {
+  return getExperienceLevel(id)?.label ?? id;
+}
+
+/**
+ * Share (0–1) of the experience points a job earns for a user's level
+ */
+export function getExperienceCredit(jobLevel: string, userLevel: string): number {
+  const job = JOB_EXPERIENCES.indexOf(jobLevel as ExperienceLevelId);
+  const user = JOB_EXPERIENCES.indexOf(userLevel as ExperienceLevelId);
+  if (job === -1 || user === -1) return 0;
+  if (job === user) return 1;
+  if (job === user - 1) return OVERQUALIFIED_CREDIT;
+  if (job === user + 1) return STRETCH_CREDIT;
+  return 0;
+}
+
+/**
+ * Level for a number of years of experience ("3+ years" → "3-5")
+ */
+export function getExperienceLevelForYears(years: number): ExperienceLevelId {
+  const level = EXPERIENCE_LEVELS.find((candidate) => years >= candidate.min && years < candidate.max);
+  return level?.id ?? "0-1";
+}
@@ -0,0 +1,301 @@
+import { Job } from "../data/jobs";
+import { jobSchema, validate } from "./validation";
+import { SKILL_TAXONOMY, normalizeSkills } from "./skills";
+import { getExperienceLevelForYears } from "./experience";
+import { REMOTE, normalizeLocation } from "./locations";
+import { escapeRegExp } from "./text";
+
+/**
+ * Feed Ingestion
+ *
+ * Adapter for job boards that publish RSS 2.0 or Atom feeds.
+ * - Entries map onto Job: title, company, location, description, applyUrl,
+ *   postedAt (the entry date, or ingestion time) and expiresAt when given
+ * - skills are guessed from the catalog's known skills found in the text
+ * - mode and experience are guessed from keywords in the text
+ * - locations are mapped to canonical city names ("Gurugram" → Gurgaon)
+ * - Every entry is checked with jobSchema; bad entries are reported, not dropped silently
+ */
+
+export interface FeedEntry {
+  id: string;
+  title: string;
+  link: string;
+  description: string;
+  published?: string;
+  company?: string;
+  location?: string;
+  expires?: string;
+  categories: string[];
+}
+
+export interface FeedEntryError {
+  entry: number;
+  title: string;
+  message: string;
+}
+
+export interface FeedIngestReport {
+  format: "rss" | "atom" | "unknown";
+  jobs: Job[];
+  errors: FeedEntryError[];
+  entryCount: number;
+}
+
+export interface FeedIngestOptions {
+  source: Job["source"];
+  // Listings whose skills make up the vocabulary skills are guessed from
+  catalog: Job[];
+  now?: Date;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isNaN(value) ? match : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Text content of an XML fragment: CDATA unwrapped, HTML stripped, entities decoded
+ */
+function textContent(fragment: string): string {
+  const unwrapped = fragment.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  // Entity-encoded HTML (common in RSS descriptions) is decoded before stripping tags
+  const html = /&lt;[a-z/]/i.test(unwrapped) ? decodeEntities(unwrapped) : unwrapped;
+  return decodeEntities(html.replace(/<br\s*\/?>|<\/p>/gi, "\n").replace(/<[^>]+>/g, " "))
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+function findTag(xml: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${escapeRegExp(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeRegExp(tag)}>`, "i"));
+    if (match) {
+      const text = textContent(match[1]);
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+function findAllTags(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${escapeRegExp(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeRegExp(tag)}>`, "gi");
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+/**
+ * Atom links are attributes: prefer rel="alternate" (or no rel)
+ */
+function findAtomLink(xml: string): string | undefined {
+  const links = Array.from(xml.matchAll(/<link\b([^>]*)\/?>/gi), (match) => match[1]);
+  const attr = (attrs: string, name: string) => attrs.match(new RegExp(`${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+  const alternate = links.find((attrs) => {
+    const rel = attr(attrs, "rel");
+    return !rel || rel === "alternate";
+  });
+  const href = alternate ? attr(alternate, "href") : undefined;
+  return href ? decodeEntities(href) : undefined;
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into entries
+ */
+export function parseFeed(xml: string): { format: FeedIngestReport["format"]; entries: FeedEntry[] } {
+  const isAtom = /<feed\b[^>]*>/i.test(xml) && !/<rss\b/i.test(xml);
+  const blocks = isAtom ? findAllTags(xml, "entry") : findAllTags(xml, "item");
+  const format = blocks.length === 0 && !/<rss\b|<feed\b/i.test(xml) ? "unknown" : isAtom ? "atom" : "rss";
+
+  const entries = blocks.map((block) => {
+    const link = isAtom ? findAtomLink(block) : findTag(block, ["link"]);
+    const categories = isAtom
+      ? Array.from(block.matchAll(/<category\b[^>]*term\s*=\s*["']([^"']*)["']/gi), (m) => decodeEntities(m[1]))
+      : findAllTags(block, "category").map(textContent);
+
+    return {
+      id: findTag(block, isAtom ? ["id"] : ["guid"]) ?? link ?? "",
+      title: findTag(block, ["title"]) ?? "",
+      link: link ?? "",
+      description: findTag(block, isAtom ? ["content", "summary"] : ["content:encoded", "description"]) ?? "",
+      published: findTag(block, isAtom ? ["published", "updated"] : ["pubDate", "dc:date"]),
+      company: findTag(block, ["job:company", "company", "author", "dc:creator"]),
+      location: findTag(block, ["job:location", "location"]),
+      expires: findTag(block, ["job:expires", "expires", "job:validThrough", "validThrough"]),
+      categories,
+    };
+  });
+
+  return { format, entries };
+}
+
+/**
+ * Split board-style titles such as "Backend Developer at Razorpay (Bangalore)"
+ * or "Backend Developer - Razorpay - Bangalore"
+ */
+function splitTitle(title: string): { title: string; company?: string; location?: string } {
+  const atMatch = title.match(/^(.+?)\s+at\s+(.+?)(?:\s*[(\[]([^)\]]+)[)\]])?$/i);
+  if (atMatch) {
+    return { title: atMatch[1].trim(), company: atMatch[2].trim(), location: atMatch[3]?.trim() };
+  }
+  const parts = title.split(/\s+[-–|]\s+/);
+  if (parts.length >= 3) {
+    return { title: parts[0], company: parts[1], location: parts.slice(2).join(", ") };
+  }
+  if (parts.length === 2) {
+    return { title: parts[0], company: parts[1] };
+  }
+  return { title };
+}
+
+/**
+ * Skills vocabulary: every skill that appears in the catalog, plus the
+ * taxonomy's names and aliases (aliases of two letters or fewer, like "js"
+ * or "ai", are too ambiguous to find in free text)
+ */
+export function getKnownSkills(list: Job[]): string[] {
+  const taxonomy = SKILL_TAXONOMY.flatMap((skill) => [
+    skill.name,
+    ...(skill.aliases ?? []).filter((alias) => alias.length > 2),
+  ]);
+  return Array.from(new Set([...list.flatMap((job) => job.skills), ...taxonomy]));
+}
+
+/**
+ * Guess skills by finding known skill names as whole words in the text,
+ * returned under their canonical names
+ * Very short names (C, Go, R) must match case-sensitively.
+ */
+export function guessSkills(text: string, vocabulary: string[]): string[] {
+  return normalizeSkills(
+    vocabulary.filter((skill) => {
+      const flags = skill.length <= 2 ? "" : "i";
+      const pattern = new RegExp(`(^|[^\\w+#.])${escapeRegExp(skill)}(?=$|[^\\w+#-])`, flags);
+      return pattern.test(text);
+    })
+  );
+}
+
+export function guessMode(text: string): Job["mode"] {
+  if (/\bhybrid\b/i.test(text)) return "Hybrid";
+  if (/\b(remote|work from home|wfh|distributed team)\b/i.test(text)) return "Remote";
+  return "Onsite";
+}
+
+export function guessExperience(text: string): Job["experience"] {
+  if (/\b(intern(ship)?|fresher|graduate|trainee|campus)\b/i.test(text)) return "Fresher";
+
+  const years = text.match(/(\d+)\s*\+?\s*(?:[-–]\s*\d+\s*)?(?:years?|yrs?)/i);
+  if (years) return getExperienceLevelForYears(parseInt(years[1]));
+
+  if (/\b(staff|principal|architect)\b/i.test(text)) return "8+";
+  if (/\blead\b/i.test(text)) return "5-8";
+  if (/\bsenior\b/i.test(text)) return "3-5";
+  if (/\b(junior|associate|entry[- ]level)\b/i.test(text)) return "0-1";
+  return "1-3";
+}
+
+function guessSalary(text: string): string {
+  const lpa = text.match(/\d+(?:\.\d+)?\s*[-–]\s*\d+(?:\.\d+)?\s*LPA/i);
+  if (lpa) return lpa[0].replace(/\s*[-–]\s*/, "–");
+  const stipend = text.match(/₹\s?\d+k?\s*[-–]\s*₹?\s?\d+k?\s*\/\s*month/i);
+  return stipend ? stipend[0] : "Not disclosed";
+}
+
+function hashId(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Map one feed entry onto a Job (not yet validated)
+ */
+function entryToJob(
+  entry: FeedEntry,
+  options: FeedIngestOptions,
+  vocabulary: string[]
+): Partial<Record<keyof Job, unknown>> {
+  const now = options.now ?? new Date();
+  const fromTitle = splitTitle(entry.title);
+  const text = [entry.title, entry.description, ...entry.categories].join("\n");
+
+  const publishedAt = entry.published ? new Date(entry.published) : undefined;
+  const postedAt =
+    publishedAt && !Number.isNaN(publishedAt.getTime()) ? publishedAt.toISOString() : now.toISOString();
+  const expiresAt = entry.expires ? new Date(entry.expires) : undefined;
+
+  const place = entry.location ?? fromTitle.location ?? (/\bremote\b/i.test(text) ? REMOTE : undefined);
+  const location = place ? normalizeLocation(place) : undefined;
+
+  return {
+    id: `feed-${hashId(entry.id || entry.link || entry.title)}`,
+    title: fromTitle.title,
+    company: entry.company ?? fromTitle.company,
+    location,
+    mode: guessMode(text),
+    experience: guessExperience(text),
+    skills: guessSkills([text, ...entry.categories].join("\n"), vocabulary),
+    source: options.source,
+    postedAt,
+    // Unparseable dates pass through so the schema reports them
+    expiresAt: expiresAt && !Number.isNaN(expiresAt.getTime()) ? expiresAt.toISOString() : entry.expires,
+    salaryRange: guessSalary(text),
+    applyUrl: entry.link,
+    description: entry.description,
+  };
+}
+
+/**
+ * Parse a feed document and map its entries onto Jobs
+ */
+export function ingestFeed(xml: string, options: FeedIngestOptions): FeedIngestReport {
+  const { format, entries } = parseFeed(xml);
+
+  if (format === "unknown") {
+    return {
+      format,
+      jobs: [],
+      errors: [{ entry: 0, title: "", message: "Not an RSS or Atom document" }],
+      entryCount: 0,
+    };
+  }
+
+  const result: Job[] = [];
+  const errors: FeedEntryError[] = [];
+  const seenIds = new Set<string>();
+  const vocabulary = getKnownSkills(options.catalog);
+
+  entries.forEach((entry, index) => {
+    const { value, issues } = validate(jobSchema, entryToJob(entry, options, vocabulary));
+    const entryNumber = index + 1;
+
+    for (const issue of issues) {
+      errors.push({ entry: entryNumber, title: entry.title, message: `${issue.path}: ${issue.message}` });
+    }
+    if (!value || issues.length > 0) return;
+
+    if (seenIds.has(value.id)) {
+      errors.push({ entry: entryNumber, title: entry.title, message: "Duplicate entry in feed" });
+      return;
+    }
+    seenIds.add(value.id);
+    result.push(value);
+  });
+
+  return { format, jobs: result, errors, entryCount: entries.length };
+}
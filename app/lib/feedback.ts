@@ -0,0 +1,213 @@
+import type { Job } from "../data/jobs";
+import { v, readStorage } from "./validation";
+import { normalizeCompany } from "./dedupe";
+import { normalizeLocation } from "./locations";
+import { normalizeSkills } from "./skills";
+
+const LEARNING_KEY = "jobTrackerLearning";
+
+/**
+ * Learning From Feedback
+ *
+ * A small per-user model kept in localStorage, nothing leaves the browser.
+ * - Explicit signals: 👍 like (+1) and 👎 dislike (−1)
+ * - Implicit signals: saving a job (+0.5) and applying to it (+1)
+ * - Each signal nudges the weight of the job's features (its skills, company,
+ *   mode and location) by strength × LEARNING_RATE points; a job's skills
+ *   share one nudge between them
+ * - Stored weights are plain sums; each feature is capped at
+ *   ±MAX_FEATURE_WEIGHT only when read
+ * - A job's learned adjustment is the sum of its feature weights, capped at
+ *   ±MAX_ADJUSTMENT match score points
+ * Every signal is stored per job, so undoing one (un-liking, un-saving)
+ * takes back exactly what it added (which capping the stored sums would break).
+ */
+
+export type Vote = "like" | "dislike";
+export type ImplicitSignal = "save" | "apply";
+
+const SIGNAL_STRENGTH: Record<Vote | ImplicitSignal, number> = {
+  like: 1,
+  dislike: -1,
+  save: 0.5,
+  apply: 1,
+};
+
+const LEARNING_RATE = 1;
+const MAX_FEATURE_WEIGHT = 10;
+export const MAX_ADJUSTMENT = 15;
+
+export interface LearnedModel {
+  // Feature key ("skill:React", "company:infosys") → match score points,
+  // uncapped (see getFeatureWeight)
+  weights: Record<string, number>;
+  // Feature key → how to show it ("company:infosys" → "Infosys")
+  labels: Record<string, string>;
+  votes: Record<string, Vote>;
+  implicit: Record<string, ImplicitSignal[]>;
+}
+
+export const EMPTY_MODEL: LearnedModel = { weights: {}, labels: {}, votes: {}, implicit: {} };
+
+export const learnedModelSchema = v.object<LearnedModel>({
+  weights: v.record(v.number(), { fallback: {} }),
+  labels: v.record(v.string(), { fallback: {} }),
+  votes: v.record(v.oneOf(["like", "dislike"] as const), { fallback: {} }),
+  implicit: v.record(v.array(v.oneOf(["save", "apply"] as const)), { fallback: {} }),
+});
+
+interface JobFeature {
+  key: string;
+  label: string;
+  // Share of a signal this feature receives
+  share: number;
+}
+
+function getJobFeatures(job: Job): JobFeature[] {
+  const skills = normalizeSkills(job.skills);
+  const location = normalizeLocation(job.location);
+  return [
+    ...skills.map((skill) => ({ key: `skill:${skill}`, label: skill, share: 1 / skills.length })),
+    { key: `company:${normalizeCompany(job.company)}`, label: job.company, share: 1 },
+    { key: `mode:${job.mode}`, label: job.mode, share: 1 },
+    { key: `location:${location}`, label: location, share: 1 },
+  ];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function applySignal(model: LearnedModel, job: Job, strength: number): LearnedModel {
+  const weights = { ...model.weights };
+  const labels = { ...model.labels };
+  for (const feature of getJobFeatures(job)) {
+    weights[feature.key] = (weights[feature.key] ?? 0) + strength * LEARNING_RATE * feature.share;
+    labels[feature.key] = feature.label;
+    // Undone signals leave float dust behind
+    if (Math.abs(weights[feature.key]) < 0.001) {
+      delete weights[feature.key];
+      delete labels[feature.key];
+    }
+  }
+  return { ...model, weights, labels };
+}
+
+/**
+ * Match score points one feature is worth, capped at ±MAX_FEATURE_WEIGHT
+ */
+function getFeatureWeight(model: LearnedModel, key: string): number {
+  return Math.max(-MAX_FEATURE_WEIGHT, Math.min(MAX_FEATURE_WEIGHT, model.weights[key] ?? 0));
+}
+
+/**
+ * Load the learned model from localStorage
+ * Returns an empty model if none exists or it is unreadable
+ */
+export function loadLearnedModel(): LearnedModel {
+  return readStorage(LEARNING_KEY, learnedModelSchema, EMPTY_MODEL);
+}
+
+function storeLearnedModel(model: LearnedModel): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(LEARNING_KEY, JSON.stringify(model));
+}
+
+/**
+ * Like, dislike or clear (null) a job; returns the updated model
+ */
+export function setJobVote(job: Job, vote: Vote | null): LearnedModel {
+  const model = loadLearnedModel();
+  const previous = model.votes[job.id];
+  if (previous === vote || (!previous && !vote)) return model;
+
+  const strength = (vote ? SIGNAL_STRENGTH[vote] : 0) - (previous ? SIGNAL_STRENGTH[previous] : 0);
+  const votes = { ...model.votes };
+  if (vote) votes[job.id] = vote;
+  else delete votes[job.id];
+
+  const updated = { ...applySignal(model, job, strength), votes };
+  storeLearnedModel(updated);
+  return updated;
+}
+
+/**
+ * Record (or with `undo`, take back) an implicit signal; each counts once per job
+ */
+export function recordJobSignal(job: Job, signal: ImplicitSignal, undo = false): LearnedModel {
+  const model = loadLearnedModel();
+  const recorded = model.implicit[job.id] ?? [];
+  if (recorded.includes(signal) !== undo) return model;
+
+  const implicit = { ...model.implicit };
+  const next = undo ? recorded.filter((s) => s !== signal) : [...recorded, signal];
+  if (next.length > 0) implicit[job.id] = next;
+  else delete implicit[job.id];
+
+  const updated = { ...applySignal(model, job, SIGNAL_STRENGTH[signal] * (undo ? -1 : 1)), implicit };
+  storeLearnedModel(updated);
+  return updated;
+}
+
+/**
+ * Forget every signal
+ */
+export function resetLearning(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(LEARNING_KEY);
+}
+
+export function countSignals(model: LearnedModel): number {
+  return (
+    Object.keys(model.votes).length +
+    Object.values(model.implicit).reduce((sum, signals) => sum + signals.length, 0)
+  );
+}
+
+export interface LearnedAdjustment {
+  points: number;
+  // Features that moved the score, strongest first ("React +0.5")
+  reasons: { label: string; points: number }[];
+}
+
+/**
+ * Match score points the model adds to (or takes from) a job
+ */
+export function getLearnedAdjustment(job: Job, model: LearnedModel): LearnedAdjustment {
+  const reasons = getJobFeatures(job)
+    .map((feature) => ({ label: feature.label, points: round(getFeatureWeight(model, feature.key)) }))
+    .filter((reason) => reason.points !== 0)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+  const total = reasons.reduce((sum, reason) => sum + reason.points, 0);
+
+  return {
+    points: Math.round(Math.max(-MAX_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, total))),
+    reasons,
+  };
+}
+
+/**
+ * Strongest learned likes and dislikes, for Settings
+ */
+export function getTopLearnedFeatures(model: LearnedModel, limit = 5): { liked: string[]; disliked: string[] } {
+  const entries = Object.entries(model.weights).map(([key, weight]) => ({
+    label: model.labels[key] ?? key.slice(key.indexOf(":") + 1),
+    kind: key.slice(0, key.indexOf(":")),
+    weight,
+  }));
+  const describe = (entry: { label: string; kind: string }) =>
+    entry.kind === "company" ? `${entry.label} (company)` : entry.label;
+
+  return {
+    liked: entries
+      .filter((entry) => entry.weight > 0)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, limit)
+      .map(describe),
+    disliked: entries
+      .filter((entry) => entry.weight < 0)
+      .sort((a, b) => a.weight - b.weight)
+      .slice(0, limit)
+      .map(describe),
+  };
+}
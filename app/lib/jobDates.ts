@@ -0,0 +1,69 @@
+import type { Job } from "../data/jobs";
+
+/**
+ * Job Dates
+ *
+ * Jobs carry absolute timestamps (ISO 8601): postedAt and an optional
+ * expiresAt. Everything relative is computed against "now" when needed:
+ * - "days ago" labels age on their own instead of saying "Today" forever
+ * - expired listings are archived out of the dashboard and digest, but
+ *   stay visible (marked) on the Saved page
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check an ISO date or date-time string
+ * Returns an error message when it is not a usable timestamp.
+ */
+export function checkTimestamp(value: string): string | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value.trim())) {
+    return `expected an ISO date like 2026-10-19 or 2026-10-19T09:00:00Z, got "${value}"`;
+  }
+  return Number.isNaN(Date.parse(value)) ? `"${value}" is not a real date` : undefined;
+}
+
+/**
+ * Timestamp for "N days before now", used for legacy postedDaysAgo data
+ */
+export function daysAgoToTimestamp(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+/**
+ * Whole days since the job was posted (never negative)
+ */
+export function getDaysAgo(job: Pick<Job, "postedAt">, now: Date = new Date()): number {
+  const postedAt = Date.parse(job.postedAt);
+  if (Number.isNaN(postedAt)) return 0;
+  return Math.max(0, Math.floor((now.getTime() - postedAt) / DAY_MS));
+}
+
+export function formatPostedTime(job: Pick<Job, "postedAt">, now: Date = new Date()): string {
+  const days = getDaysAgo(job, now);
+  if (days === 0) return "Today";
+  if (days === 1) return "1 day ago";
+  return `${days} days ago`;
+}
+
+export function isExpired(job: Pick<Job, "expiresAt">, now: Date = new Date()): boolean {
+  if (!job.expiresAt) return false;
+  const expiresAt = Date.parse(job.expiresAt);
+  return !Number.isNaN(expiresAt) && expiresAt <= now.getTime();
+}
+
+/**
+ * Listings that have not expired yet
+ */
+export function getActiveJobs<T extends Pick<Job, "expiresAt">>(list: T[], now: Date = new Date()): T[] {
+  return list.filter((job) => !isExpired(job, now));
+}
+
+/**
+ * Newest first; invalid timestamps sort last
+ */
+export function compareByPostedAt(a: Pick<Job, "postedAt">, b: Pick<Job, "postedAt">): number {
+  const timeA = Date.parse(a.postedAt);
+  const timeB = Date.parse(b.postedAt);
+  return (Number.isNaN(timeB) ? -Infinity : timeB) - (Number.isNaN(timeA) ? -Infinity : timeA) || 0;
+}
@@ -0,0 +1,222 @@
+import { Job } from "../data/jobs";
+import { compareSalary, isInSalaryBand, SALARY_BANDS } from "./salary";
+import { compareByPostedAt } from "./jobDates";
+import { DEFAULT_HALF_LIFE_DAYS, compareByFreshness } from "./recency";
+import { searchJobs } from "./searchIndex";
+import { REMOTE, isInLocation, isRemoteLocation } from "./locations";
+
+/**
+ * Job Query
+ *
+ * Filtering, sorting and pagination shared by the dashboard and /api/jobs.
+ * Parameters mirror the FilterBar: keyword, location, mode, experience,
+ * source, salary (a SALARY_BANDS id) and sort, plus page/pageSize for the API.
+ * keyword is a full-text search over every text field (see searchIndex.ts);
+ * the "relevance" sort ranks by it.
+ */
+
+export const SORT_OPTIONS = [
+  "latest",
+  "relevance",
+  "oldest",
+  "match-score",
+  "salary-high",
+  "salary-low",
+] as const;
+
+export type JobSort = (typeof SORT_OPTIONS)[number];
+
+export interface JobFilters {
+  keyword: string;
+  location: string;
+  mode: string;
+  experience: string;
+  source: string;
+  salary: string;
+  sort: string;
+}
+
+export interface JobQuery extends JobFilters {
+  page: number;
+  pageSize: number;
+}
+
+export interface JobQueryResult {
+  jobs: Job[];
+  total: number;
+  catalogTotal: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Apply FilterBar filters (everything except sort)
+ * catalog is the full list that list was taken from; the keyword is searched
+ * in its index (see searchIndex.ts).
+ */
+export function filterJobs<T extends Job>(list: T[], filters: Partial<JobFilters>, catalog: Job[]): T[] {
+  let result = list;
+
+  // Keyword filter (full-text: title, company, location, skills, description)
+  if (filters.keyword?.trim()) {
+    const matches = searchJobs(catalog, filters.keyword);
+    result = result.filter((job) => matches.has(job.id));
+  }
+
+  // Location filter (a city, or a region such as "Delhi NCR"); "Remote"
+  // also takes remote-mode jobs listed under a city
+  if (filters.location) {
+    const place = filters.location;
+    const remote = isRemoteLocation(place);
+    result = result.filter((job) => (remote && job.mode === REMOTE) || isInLocation(job.location, place));
+  }
+
+  // Mode filter
+  if (filters.mode) {
+    result = result.filter((job) => job.mode === filters.mode);
+  }
+
+  // Experience filter
+  if (filters.experience) {
+    result = result.filter((job) => job.experience === filters.experience);
+  }
+
+  // Source filter (merged listings match any board they were posted on)
+  if (filters.source) {
+    result = result.filter(
+      (job) =>
+        job.source === filters.source ||
+        (job.alternateListings ?? []).some((listing) => listing.source === filters.source)
+    );
+  }
+
+  // Salary filter (annual INR, so stipends and LPA roles compare fairly)
+  if (filters.salary) {
+    const band = filters.salary;
+    result = result.filter((job) => isInSalaryBand(job, band));
+  }
+
+  return result;
+}
+
+/**
+ * Sort jobs by one of the SORT_OPTIONS
+ * Returns a new array; unknown sort values keep the input order.
+ * "relevance" needs the search keyword and falls back to newest first without one;
+ * as in filterJobs, the keyword is searched in the catalog's index.
+ * "latest" ranks scored jobs by freshness (see recency.ts), otherwise newest first.
+ */
+export function sortJobs<T extends Job & { matchScore?: number }>(
+  list: T[],
+  sort: string,
+  catalog: Job[],
+  keyword = "",
+  halfLifeDays = DEFAULT_HALF_LIFE_DAYS
+): T[] {
+  const result = [...list];
+
+  switch (sort) {
+    case "relevance":
+      if (keyword.trim()) {
+        const scores = searchJobs(catalog, keyword);
+        result.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || compareByPostedAt(a, b));
+        break;
+      }
+      result.sort(compareByPostedAt);
+      break;
+    case "latest":
+      result.sort((a, b) => compareByFreshness(a, b, halfLifeDays));
+      break;
+    case "oldest":
+      result.sort((a, b) => compareByPostedAt(b, a));
+      break;
+    case "match-score":
+      result.sort((a, b) => (b.matchScore ?? 0) - (a.matchScore ?? 0));
+      break;
+    case "salary-high":
+      result.sort((a, b) => compareSalary(a, b, "high"));
+      break;
+    case "salary-low":
+      result.sort((a, b) => compareSalary(a, b, "low"));
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Filter, sort and paginate a job list
+ */
+export function queryJobs(list: Job[], query: JobQuery): JobQueryResult {
+  const matching = sortJobs(filterJobs(list, query, list), query.sort, list, query.keyword);
+  const totalPages = Math.max(1, Math.ceil(matching.length / query.pageSize));
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    jobs: matching.slice(start, start + query.pageSize),
+    total: matching.length,
+    catalogTotal: list.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages,
+  };
+}
+
+/**
+ * Parse a positive integer query parameter
+ * Returns the fallback when missing, null when invalid.
+ */
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === "") return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value);
+  return parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse URL search params into a JobQuery
+ * Returns an error message instead of a query when a parameter is invalid.
+ */
+export function parseJobQuery(
+  params: URLSearchParams
+): { query: JobQuery; error?: undefined } | { query?: undefined; error: string } {
+  const sort = params.get("sort") || "latest";
+  if (!(SORT_OPTIONS as readonly string[]).includes(sort)) {
+    return { error: `Invalid sort "${sort}". Expected one of: ${SORT_OPTIONS.join(", ")}` };
+  }
+
+  const salary = params.get("salary") ?? "";
+  if (salary && !SALARY_BANDS.some((band) => band.id === salary)) {
+    return {
+      error: `Invalid salary "${salary}". Expected one of: ${SALARY_BANDS.map((band) => band.id).join(", ")}`,
+    };
+  }
+
+  const page = parsePositiveInt(params.get("page"), 1);
+  if (page === null) {
+    return { error: "page must be a positive integer" };
+  }
+
+  const pageSize = parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE);
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return { error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  return {
+    query: {
+      keyword: params.get("keyword")?.trim() ?? "",
+      location: params.get("location") ?? "",
+      mode: params.get("mode") ?? "",
+      experience: params.get("experience") ?? "",
+      source: params.get("source") ?? "",
+      salary,
+      sort,
+      page,
+      pageSize,
+    },
+  };
+}
@@ -1,8 +1,11 @@
 import { JobStatus } from "../components/jobs/JobCard";
+import { v, readStorage } from "./validation";
 
 const STATUS_KEY = "jobTrackerStatus";
 const STATUS_HISTORY_KEY = "jobTrackerStatusHistory";
 
+export const JOB_STATUSES: JobStatus[] = ["Not Applied", "Applied", "Rejected", "Selected"];
+
 export interface StatusHistoryEntry {
   jobId: string;
   jobTitle: string;
@@ -11,22 +14,25 @@ export interface StatusHistoryEntry {
   changedAt: string;
 }
 
+export const jobStatusesSchema = v.record(v.oneOf(JOB_STATUSES));
+
+export const statusHistoryEntrySchema = v.object<StatusHistoryEntry>({
+  jobId: v.string({ minLength: 1 }),
+  jobTitle: v.string({ fallback: "" }),
+  company: v.string({ fallback: "" }),
+  status: v.oneOf(JOB_STATUSES),
+  changedAt: v.string({
+    pattern: /^\d{4}-\d{2}-\d{2}T/,
+    patternMessage: "expected an ISO timestamp",
+  }),
+});
+
 /**
  * Load all job statuses from localStorage
- * Returns empty object if none exists
+ * Returns empty object if none exists; unknown statuses are dropped
  */
 export function loadJobStatuses(): Record<string, JobStatus> {
-  if (typeof window === "undefined") return {};
-  
-  const saved = localStorage.getItem(STATUS_KEY);
-  if (saved) {
-    try {
-      return JSON.parse(saved);
-    } catch {
-      return {};
-    }
-  }
-  return {};
+  return readStorage(STATUS_KEY, jobStatusesSchema, {});
 }
 
 /**
@@ -96,19 +102,17 @@ function recordStatusHistory(
 
 /**
  * Load status history
+ * Malformed entries are dropped
  */
 export function loadStatusHistory(): StatusHistoryEntry[] {
-  if (typeof window === "undefined") return [];
-  
-  const saved = localStorage.getItem(STATUS_HISTORY_KEY);
-  if (saved) {
-    try {
-      return JSON.parse(saved);
-    } catch {
-      return [];
-    }
-  }
-  return [];
+  return readStorage(STATUS_HISTORY_KEY, v.array(statusHistoryEntrySchema), []);
+}
+
+/**
+ * Status changes for one job, newest first
+ */
+export function getJobStatusHistory(jobId: string): StatusHistoryEntry[] {
+  return loadStatusHistory().filter((entry) => entry.jobId === jobId);
 }
 
 /**
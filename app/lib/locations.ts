@@ -0,0 +1,130 @@
+/**
+ * Locations
+ *
+ * Canonical city names with aliases, and regions that group cities, so that
+ * "Bengaluru" is Bangalore and "Delhi NCR" covers Noida and Gurgaon.
+ * - normalizeLocation maps any spelling ("Gurugram, Haryana") to its
+ *   canonical name (unknown places pass through trimmed)
+ * - A preference matches a job in the same city, or in a city of the
+ *   preferred region
+ * - Remote jobs match any location preference; preferring "Remote" only
+ *   matches remote jobs
+ */
+
+export const REMOTE = "Remote";
+
+export interface CityDefinition {
+  name: string;
+  aliases?: string[];
+}
+
+export interface Region {
+  name: string;
+  aliases?: string[];
+  cities: string[];
+}
+
+export const CITIES: CityDefinition[] = [
+  { name: "Bangalore", aliases: ["bengaluru", "blr"] },
+  { name: "Hyderabad", aliases: ["secunderabad", "hyd"] },
+  { name: "Chennai", aliases: ["madras"] },
+  { name: "Mumbai", aliases: ["bombay"] },
+  { name: "Navi Mumbai" },
+  { name: "Thane" },
+  { name: "Pune", aliases: ["poona"] },
+  { name: "Delhi", aliases: ["new delhi"] },
+  { name: "Gurgaon", aliases: ["gurugram"] },
+  { name: "Noida", aliases: ["greater noida"] },
+  { name: "Faridabad" },
+  { name: "Ghaziabad" },
+  { name: "Kolkata", aliases: ["calcutta"] },
+  { name: "Ahmedabad" },
+  { name: "Jaipur" },
+  { name: "Kochi", aliases: ["cochin"] },
+  { name: "Thiruvananthapuram", aliases: ["trivandrum"] },
+  { name: "Coimbatore" },
+  { name: "Chandigarh", aliases: ["mohali"] },
+  { name: "Indore" },
+  { name: REMOTE, aliases: ["anywhere", "work from home", "wfh", "remote india", "pan india"] },
+];
+
+export const REGIONS: Region[] = [
+  { name: "Delhi NCR", aliases: ["ncr", "delhi ncr region"], cities: ["Delhi", "Gurgaon", "Noida", "Faridabad", "Ghaziabad"] },
+  { name: "Mumbai Region", aliases: ["mmr", "mumbai metropolitan region"], cities: ["Mumbai", "Navi Mumbai", "Thane"] },
+];
+
+function locationKey(value: string): string {
+  return value.toLowerCase().replace(/[\s.-]+/g, " ").trim();
+}
+
+const byKey = new Map<string, string>();
+for (const place of [...CITIES, ...REGIONS]) {
+  for (const spelling of [place.name, ...(place.aliases ?? [])]) {
+    byKey.set(locationKey(spelling), place.name);
+  }
+}
+
+/**
+ * Canonical city or region name; "Bengaluru, Karnataka" → "Bangalore"
+ */
+export function normalizeLocation(location: string): string {
+  const whole = byKey.get(locationKey(location));
+  if (whole) return whole;
+  const first = location.split(/[,(/]/)[0];
+  return byKey.get(locationKey(first)) ?? location.trim().replace(/\s+/g, " ");
+}
+
+export function getRegion(name: string): Region | undefined {
+  const canonical = normalizeLocation(name);
+  return REGIONS.find((region) => region.name === canonical);
+}
+
+export function isRemoteLocation(location: string): boolean {
+  return normalizeLocation(location) === REMOTE;
+}
+
+/**
+ * Whether a job location is the place (city or region) a user picked
+ * Only the listed location counts; the FilterBar's Remote option also
+ * checks the job mode (see filterJobs), exclusions do not.
+ */
+export function isInLocation(jobLocation: string, place: string): boolean {
+  const city = normalizeLocation(jobLocation);
+  const region = getRegion(place);
+  return region ? region.cities.includes(city) : city === normalizeLocation(place);
+}
+
+/**
+ * The location preference a job satisfies, if any
+ * Remote jobs (by mode or location) satisfy any preference.
+ */
+export function matchLocationPreference(
+  job: { location: string; mode: string },
+  preferredLocations: string[]
+): { preference: string; reason: "city" | "region" | "remote" } | undefined {
+  if (preferredLocations.length === 0) return undefined;
+
+  const remote = job.mode === REMOTE || isRemoteLocation(job.location);
+  for (const preference of preferredLocations) {
+    if (isRemoteLocation(preference)) {
+      if (remote) return { preference, reason: "remote" };
+    } else if (isInLocation(job.location, preference)) {
+      return { preference, reason: getRegion(preference) ? "region" : "city" };
+    }
+  }
+  return remote ? { preference: preferredLocations[0], reason: "remote" } : undefined;
+}
+
+/**
+ * Picker options for a set of catalog locations: regions with at least one
+ * of those cities (plus Remote), then the cities themselves
+ */
+export function getLocationOptions(locations: string[]): { regions: string[]; cities: string[] } {
+  const cities = Array.from(new Set(locations.map(normalizeLocation)))
+    .filter((city) => city !== REMOTE)
+    .sort();
+  const regions = REGIONS.filter((region) => region.cities.some((city) => cities.includes(city))).map(
+    (region) => region.name
+  );
+  return { regions: [...regions, REMOTE], cities };
+}
@@ -1,4 +1,61 @@
 import { Job } from "../data/jobs";
+import { v, readStorage } from "./validation";
+import { getSource } from "./sources";
+import { matchSourcePreference } from "./sourcePreferences";
+import { getDaysAgo } from "./jobDates";
+import { DEFAULT_HALF_LIFE_DAYS, MIN_HALF_LIFE_DAYS, MAX_HALF_LIFE_DAYS, getRecencyFactor } from "./recency";
+import { normalizeSkills, parseSkillList, skillCovers } from "./skills";
+import { formatExperience, getExperienceCredit } from "./experience";
+import { matchLocationPreference } from "./locations";
+import { SalaryFloor, NO_SALARY_FLOOR, formatJobSalary, formatSalaryFloor, meetsSalaryFloor } from "./salary";
+import { ExclusionMatch, ExclusionRules, DEFAULT_EXCLUSIONS, exclusionsSchema, getExclusionMatches } from "./exclusions";
+import { LearnedAdjustment, LearnedModel, EMPTY_MODEL, getLearnedAdjustment } from "./feedback";
+import { splitList } from "./text";
+
+const PREFERENCES_KEY = "jobTrackerPreferences";
+
+/**
+ * Points each scoring rule is worth
+ * Weights are relative: the score is the share of all weights a job earns,
+ * so the defaults (which add up to 100) give plain points.
+ */
+export interface MatchWeights {
+  titleKeyword: number;
+  descriptionKeyword: number;
+  location: number;
+  mode: number;
+  experience: number;
+  skills: number;
+  recency: number;
+  source: number;
+  salary: number;
+}
+
+export const DEFAULT_WEIGHTS: MatchWeights = {
+  titleKeyword: 25,
+  descriptionKeyword: 15,
+  location: 15,
+  mode: 10,
+  experience: 10,
+  skills: 15,
+  recency: 5,
+  source: 5,
+  salary: 10,
+};
+
+export const MAX_WEIGHT = 50;
+
+export const MATCH_WEIGHT_LABELS: Record<keyof MatchWeights, string> = {
+  titleKeyword: "Role keyword in title",
+  descriptionKeyword: "Role keyword in description",
+  location: "Preferred location",
+  mode: "Preferred mode",
+  experience: "Experience level",
+  skills: "Skill overlap",
+  recency: "Posted recently",
+  source: "Preferred source",
+  salary: "Meets salary floor",
+};
 
 export interface Preferences {
   roleKeywords: string;
@@ -7,106 +64,367 @@ export interface Preferences {
   experienceLevel: string;
   skills: string;
   minMatchScore: number;
+  weights: MatchWeights;
+  exclusions: ExclusionRules;
+  salaryFloor: SalaryFloor;
+  // Days for the recency bonus (and freshness ranking) to halve
+  recencyHalfLifeDays: number;
+  // Source ids, most preferred first
+  sourceRanking: string[];
+  // Registered scorer id, see app/lib/scorers.ts
+  scorerId: string;
 }
 
+export const DEFAULT_PREFERENCES: Preferences = {
+  roleKeywords: "",
+  preferredLocations: [],
+  preferredMode: [],
+  experienceLevel: "",
+  skills: "",
+  minMatchScore: 40,
+  weights: DEFAULT_WEIGHTS,
+  exclusions: DEFAULT_EXCLUSIONS,
+  salaryFloor: NO_SALARY_FLOOR,
+  recencyHalfLifeDays: DEFAULT_HALF_LIFE_DAYS,
+  sourceRanking: [],
+  scorerId: "rules",
+};
+
+const weight = (key: keyof MatchWeights) =>
+  v.number({ min: 0, max: MAX_WEIGHT, fallback: DEFAULT_WEIGHTS[key] });
+
+const weightsSchema = v.object<MatchWeights>(
+  {
+    titleKeyword: weight("titleKeyword"),
+    descriptionKeyword: weight("descriptionKeyword"),
+    location: weight("location"),
+    mode: weight("mode"),
+    experience: weight("experience"),
+    skills: weight("skills"),
+    recency: weight("recency"),
+    source: weight("source"),
+    salary: weight("salary"),
+  },
+  { fallback: DEFAULT_WEIGHTS }
+);
+
+/**
+ * Preferences schema
+ * Every field repairs to its default, so a stale or hand-edited value
+ * never breaks the rest of the app.
+ */
+export const preferencesSchema = v.object<Preferences>({
+  roleKeywords: v.string({ fallback: DEFAULT_PREFERENCES.roleKeywords }),
+  preferredLocations: v.array(v.string(), { fallback: DEFAULT_PREFERENCES.preferredLocations }),
+  preferredMode: v.array(v.string(), { fallback: DEFAULT_PREFERENCES.preferredMode }),
+  experienceLevel: v.string({ fallback: DEFAULT_PREFERENCES.experienceLevel }),
+  skills: v.string({ fallback: DEFAULT_PREFERENCES.skills }),
+  minMatchScore: v.number({ min: 0, max: 100, fallback: DEFAULT_PREFERENCES.minMatchScore }),
+  weights: weightsSchema,
+  exclusions: exclusionsSchema,
+  salaryFloor: v.object<SalaryFloor>(
+    {
+      amount: v.number({ min: 0, fallback: NO_SALARY_FLOOR.amount }),
+      period: v.oneOf(["year", "month"] as const, { fallback: NO_SALARY_FLOOR.period }),
+    },
+    { fallback: NO_SALARY_FLOOR }
+  ),
+  recencyHalfLifeDays: v.number({
+    min: MIN_HALF_LIFE_DAYS,
+    max: MAX_HALF_LIFE_DAYS,
+    fallback: DEFAULT_PREFERENCES.recencyHalfLifeDays,
+  }),
+  sourceRanking: v.array(v.string(), { fallback: DEFAULT_PREFERENCES.sourceRanking }),
+  scorerId: v.string({ minLength: 1, fallback: DEFAULT_PREFERENCES.scorerId }),
+});
+
 /**
  * Match Score Engine
  * 
- * Scoring Rules (exact specification):
+ * Scoring Rules (default weights; users can change them in Settings):
  * +25 if any roleKeyword appears in job.title (case-insensitive)
  * +15 if any roleKeyword appears in job.description
- * +15 if job.location matches preferredLocations
+ * +15 if job.location matches preferredLocations (aliases, regions like
+ *   Delhi NCR, and remote jobs match any preference; see app/lib/locations.ts)
  * +10 if job.mode matches preferredMode
- * +10 if job.experience matches experienceLevel
- * +15 if overlap between job.skills and user.skills (any match)
- * +5 if postedDaysAgo <= 2
- * +5 if source is LinkedIn
+ * +10 × experience credit: full for the same level, partial for the next level
+ *   up or down (see app/lib/experience.ts)
+ * +15 × skill coverage: the share of the job's skills the user has, with
+ *   must-haves (job.skills) counting twice as much as niceToHaveSkills.
+ *   Skills match via the taxonomy in app/lib/skills.ts (aliases and parent
+ *   skills count).
+ * +5 × recency factor: full when just posted, halving every
+ *   recencyHalfLifeDays (see app/lib/recency.ts)
+ * +5 × source preference: full for the first board in sourceRanking, then
+ *   proportionally less down the list (see app/lib/sourcePreferences.ts);
+ *   only counts once a ranking is set
+ * +10 if the top of the job's pay range reaches salaryFloor (half when the
+ *   salary is not disclosed, nothing below it); only counts once a floor is set
  * 
- * Cap score at 100.
+ * Score = points / sum of weights, as a percentage, plus or minus what was
+ * learned from the user's likes, dislikes, saves and applications (see
+ * app/lib/feedback.ts), kept within 0–100.
+ * Jobs that break an exclusion rule (see app/lib/exclusions.ts) are either
+ * flagged hidden or lose the configured penalty.
  */
 
-export function calculateMatchScore(job: Job, preferences: Preferences): number {
-  let score = 0;
-
-  // Parse role keywords (comma-separated)
-  const roleKeywords = preferences.roleKeywords
-    .split(",")
-    .map((k) => k.trim().toLowerCase())
-    .filter((k) => k.length > 0);
-
-  // Parse user skills (comma-separated)
-  const userSkills = preferences.skills
-    .split(",")
-    .map((s) => s.trim().toLowerCase())
-    .filter((s) => s.length > 0);
-
-  // +25 if any roleKeyword appears in job.title
-  if (roleKeywords.length > 0) {
-    const titleLower = job.title.toLowerCase();
-    const hasKeywordInTitle = roleKeywords.some((keyword) =>
-      titleLower.includes(keyword)
-    );
-    if (hasKeywordInTitle) {
-      score += 25;
-    }
-
-    // +15 if any roleKeyword appears in job.description
-    const descLower = job.description.toLowerCase();
-    const hasKeywordInDesc = roleKeywords.some((keyword) =>
-      descLower.includes(keyword)
-    );
-    if (hasKeywordInDesc) {
-      score += 15;
-    }
-  }
+export interface MatchScoreRule {
+  id: keyof MatchWeights;
+  label: string;
+  fired: boolean;
+  points: number;
+  maxPoints: number;
+  // What the rule matched on (keywords, skills, location…); empty when it did not fire
+  matched: string[];
+  // Why it fired or what is missing, in plain words
+  detail: string;
+}
 
-  // +15 if job.location matches preferredLocations
-  if (
-    preferences.preferredLocations.length > 0 &&
-    preferences.preferredLocations.includes(job.location)
-  ) {
-    score += 15;
-  }
+/**
+ * What a scorer produces, before feedback and exclusions
+ */
+export interface BaseMatchScore {
+  // 0–100
+  score: number;
+  rules: MatchScoreRule[];
+  // Plain-words explanation, for scorers that are not rule based
+  summary?: string;
+}
 
-  // +10 if job.mode matches preferredMode
-  if (
-    preferences.preferredMode.length > 0 &&
-    preferences.preferredMode.includes(job.mode)
-  ) {
-    score += 10;
-  }
+export interface MatchScoreResult {
+  score: number;
+  rules: MatchScoreRule[];
+  summary?: string;
+  // Exclusion rules the job breaks
+  exclusions: ExclusionMatch[];
+  // Points taken off the score by exclusions (0 when hiding instead)
+  penalty: number;
+  // Hidden by exclusion rules
+  hidden: boolean;
+  // Points learned from feedback (already included in score)
+  learned: LearnedAdjustment;
+}
 
-  // +10 if job.experience matches experienceLevel
-  if (
-    preferences.experienceLevel &&
-    job.experience === preferences.experienceLevel
-  ) {
-    score += 10;
-  }
+export interface SkillCoverage {
+  required: string[];
+  requiredMatched: string[];
+  niceToHave: string[];
+  niceToHaveMatched: string[];
+  // 0–1; must-haves count double
+  coverage: number;
+}
 
-  // +15 if overlap between job.skills and user.skills (any match)
-  if (userSkills.length > 0) {
-    const jobSkillsLower = job.skills.map((s) => s.toLowerCase());
-    const hasSkillMatch = userSkills.some((userSkill) =>
-      jobSkillsLower.some((jobSkill) => jobSkill.includes(userSkill) || userSkill.includes(jobSkill))
-    );
-    if (hasSkillMatch) {
-      score += 15;
-    }
-  }
+/**
+ * How many of a job's skills the user has (canonical names)
+ */
+export function getSkillCoverage(job: Job, skills: string): SkillCoverage {
+  const userSkills = parseSkillList(skills);
+  const has = (jobSkill: string) => userSkills.some((userSkill) => skillCovers(userSkill, jobSkill));
+  const required = normalizeSkills(job.skills);
+  const niceToHave = normalizeSkills(job.niceToHaveSkills ?? []).filter((skill) => !required.includes(skill));
+  const requiredMatched = required.filter(has);
+  const niceToHaveMatched = niceToHave.filter(has);
+  const total = 2 * required.length + niceToHave.length;
 
-  // +5 if postedDaysAgo <= 2
-  if (job.postedDaysAgo <= 2) {
-    score += 5;
-  }
+  return {
+    required,
+    requiredMatched,
+    niceToHave,
+    niceToHaveMatched,
+    coverage: total > 0 ? (2 * requiredMatched.length + niceToHaveMatched.length) / total : 0,
+  };
+}
 
-  // +5 if source is LinkedIn
-  if (job.source === "LinkedIn") {
-    score += 5;
+function describeSkillCoverage(coverage: SkillCoverage, hasSkills: boolean): string {
+  if (!hasSkills) return "No skills set";
+  if (coverage.required.length + coverage.niceToHave.length === 0) return "The job lists no skills";
+
+  const missing = [
+    ...coverage.required.filter((skill) => !coverage.requiredMatched.includes(skill)),
+    ...coverage.niceToHave.filter((skill) => !coverage.niceToHaveMatched.includes(skill)),
+  ];
+  const parts = [`${coverage.requiredMatched.length}/${coverage.required.length} required skills`];
+  if (coverage.niceToHave.length > 0) {
+    parts.push(`${coverage.niceToHaveMatched.length}/${coverage.niceToHave.length} nice-to-have`);
   }
+  return `${parts.join(", ")}${missing.length > 0 ? `; missing ${missing.join(", ")}` : ""}`;
+}
+
+/**
+ * The rules score of a job, before feedback and exclusions: every rule in
+ * specification order, whether it fired, the points it awarded and what it matched
+ */
+export function getRuleScore(job: Job, preferences: Preferences): BaseMatchScore {
+  const roleKeywords = splitList(preferences.roleKeywords.toLowerCase());
+  const titleLower = job.title.toLowerCase();
+  const descLower = job.description.toLowerCase();
+  const weights = preferences.weights;
+  const source = getSource(job.source);
+  const daysAgo = getDaysAgo(job);
+  const recencyFactor = getRecencyFactor(job, preferences.recencyHalfLifeDays);
+  const recencyPoints = Math.round(weights.recency * recencyFactor);
 
-  // Cap score at 100
-  return Math.min(score, 100);
+  const rule = (
+    id: keyof MatchWeights,
+    matched: string[],
+    detail: string,
+    points = matched.length > 0 ? weights[id] : 0,
+    maxPoints = weights[id]
+  ): MatchScoreRule => ({
+    id,
+    label: MATCH_WEIGHT_LABELS[id],
+    fired: points > 0,
+    points,
+    maxPoints,
+    matched,
+    detail,
+  });
+
+  const titleKeywords = roleKeywords.filter((keyword) => titleLower.includes(keyword));
+  const descriptionKeywords = roleKeywords.filter((keyword) => descLower.includes(keyword));
+  const keywordDetail = (matched: string[], field: string) =>
+    matched.length > 0
+      ? `${field} mentions ${matched.map((k) => `"${k}"`).join(", ")}`
+      : roleKeywords.length === 0
+        ? "No role keywords set"
+        : `${field} mentions none of ${roleKeywords.map((k) => `"${k}"`).join(", ")}`;
+
+  const locationMatch = matchLocationPreference(job, preferences.preferredLocations);
+  const modeMatched = preferences.preferredMode.includes(job.mode) ? [job.mode] : [];
+  const experienceCredit = getExperienceCredit(job.experience, preferences.experienceLevel);
+  const jobExperience = formatExperience(job.experience);
+  const userExperience = formatExperience(preferences.experienceLevel);
+  const skillCoverage = getSkillCoverage(job, preferences.skills);
+  const hasSourceRanking = preferences.sourceRanking.length > 0;
+  const sourceMatch = matchSourcePreference(job, preferences.sourceRanking);
+  const sourceName = sourceMatch ? getSource(sourceMatch.source).name : source.name;
+  const hasSalaryFloor = preferences.salaryFloor.amount > 0;
+  const meetsFloor = hasSalaryFloor ? meetsSalaryFloor(job, preferences.salaryFloor) : null;
+  const salaryPoints = meetsFloor ? weights.salary : meetsFloor === null ? Math.round(weights.salary / 2) : 0;
+  const floorText = formatSalaryFloor(preferences.salaryFloor);
+
+  const rules = [
+    rule("titleKeyword", titleKeywords, keywordDetail(titleKeywords, "Title")),
+    rule("descriptionKeyword", descriptionKeywords, keywordDetail(descriptionKeywords, "Description")),
+    rule(
+      "location",
+      locationMatch ? [locationMatch.preference] : [],
+      locationMatch?.reason === "remote"
+        ? "Remote role: works from any of your locations"
+        : locationMatch?.reason === "region"
+          ? `${job.location} is in ${locationMatch.preference}`
+          : locationMatch
+            ? `${job.location} is one of your locations`
+            : preferences.preferredLocations.length === 0
+              ? "No preferred locations set"
+              : `${job.location} is not one of your locations`
+    ),
+    rule(
+      "mode",
+      modeMatched,
+      modeMatched.length > 0
+        ? `${job.mode} is a preferred mode`
+        : preferences.preferredMode.length === 0
+          ? "No preferred mode set"
+          : `${job.mode} is not a preferred mode`
+    ),
+    rule(
+      "experience",
+      experienceCredit > 0 ? [job.experience] : [],
+      experienceCredit === 1
+        ? `Matches your ${userExperience} level`
+        : experienceCredit > 0
+          ? `Asks for ${jobExperience}, next to your ${userExperience} (partial credit)`
+          : preferences.experienceLevel.length === 0
+            ? "No experience level set"
+            : `Asks for ${jobExperience}, you chose ${userExperience}`,
+      Math.round(weights.experience * experienceCredit)
+    ),
+    rule(
+      "skills",
+      [...skillCoverage.requiredMatched, ...skillCoverage.niceToHaveMatched],
+      describeSkillCoverage(skillCoverage, parseSkillList(preferences.skills).length > 0),
+      Math.round(weights.skills * skillCoverage.coverage)
+    ),
+    rule(
+      "recency",
+      recencyPoints > 0 ? [daysAgo === 0 ? "today" : `${daysAgo}d ago`] : [],
+      `Posted ${daysAgo === 0 ? "today" : daysAgo === 1 ? "1 day ago" : `${daysAgo} days ago`}: ${Math.round(
+        recencyFactor * 100
+      )}% fresh (half-life ${preferences.recencyHalfLifeDays} days)`,
+      recencyPoints
+    ),
+    rule(
+      "source",
+      sourceMatch ? [sourceName] : [],
+      !hasSourceRanking
+        ? "No source ranking set"
+        : sourceMatch
+          ? `${sourceName} is #${sourceMatch.position + 1} of your ${preferences.sourceRanking.length} sources`
+          : `${source.name} is not in your source ranking`,
+      sourceMatch ? Math.round(weights.source * sourceMatch.credit) : 0,
+      hasSourceRanking ? weights.source : 0
+    ),
+    rule(
+      "salary",
+      meetsFloor ? [formatJobSalary(job)] : [],
+      !hasSalaryFloor
+        ? "No salary floor set"
+        : meetsFloor
+          ? `${formatJobSalary(job)} reaches your ${floorText} floor`
+          : meetsFloor === null
+            ? `Salary not disclosed (half credit against your ${floorText} floor)`
+            : `${formatJobSalary(job)} is below your ${floorText} floor`,
+      hasSalaryFloor ? salaryPoints : 0,
+      hasSalaryFloor ? weights.salary : 0
+    ),
+  ];
+
+  const points = rules.reduce((sum, r) => sum + r.points, 0);
+  const total = rules.reduce((sum, r) => sum + r.maxPoints, 0);
+
+  return { score: total === 0 ? 0 : Math.round((points / total) * 100), rules };
+}
+
+/**
+ * Turn any scorer's base score into the final result: add what was learned
+ * from feedback (keeping the score within 0–100), then apply exclusion rules
+ */
+export function finishMatchScore(
+  job: Job,
+  preferences: Preferences,
+  base: BaseMatchScore,
+  model: LearnedModel = EMPTY_MODEL
+): MatchScoreResult {
+  const learned = getLearnedAdjustment(job, model);
+  const score = Math.max(0, Math.min(base.score + learned.points, 100));
+
+  const exclusions = getExclusionMatches(job, preferences.exclusions);
+  const excluded = exclusions.length > 0;
+  const penalty =
+    excluded && preferences.exclusions.action === "penalty" ? Math.min(preferences.exclusions.penalty, score) : 0;
+  return {
+    score: score - penalty,
+    rules: base.rules,
+    summary: base.summary,
+    exclusions,
+    penalty,
+    hidden: excluded && preferences.exclusions.action === "hide",
+    learned,
+  };
+}
+
+/**
+ * Score a job with the rules above and explain it
+ * Pages go through scoreJob (app/lib/scorers.ts), which honours the scorer
+ * picked in Settings.
+ */
+export function calculateMatchScore(
+  job: Job,
+  preferences: Preferences,
+  model: LearnedModel = EMPTY_MODEL
+): MatchScoreResult {
+  return finishMatchScore(job, preferences, getRuleScore(job, preferences), model);
 }
 
 /**
@@ -131,19 +449,18 @@ export function getMatchScoreColor(score: number): string {
 
 /**
  * Load preferences from localStorage
+ * Returns null if none are saved; invalid fields are repaired to defaults
  */
 export function loadPreferences(): Preferences | null {
-  if (typeof window === "undefined") return null;
-  
-  const saved = localStorage.getItem("jobTrackerPreferences");
-  if (saved) {
-    try {
-      return JSON.parse(saved);
-    } catch {
-      return null;
-    }
-  }
-  return null;
+  return readStorage<Preferences | null>(PREFERENCES_KEY, preferencesSchema, null);
+}
+
+/**
+ * Save preferences to localStorage
+ */
+export function savePreferences(preferences: Preferences): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
 }
 
 /**
@@ -159,6 +476,8 @@ export function hasPreferences(): boolean {
     prefs.preferredLocations.length > 0 ||
     prefs.preferredMode.length > 0 ||
     prefs.experienceLevel.trim().length > 0 ||
-    prefs.skills.trim().length > 0
+    prefs.skills.trim().length > 0 ||
+    prefs.salaryFloor.amount > 0 ||
+    prefs.sourceRanking.length > 0
   );
 }
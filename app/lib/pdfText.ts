@@ -0,0 +1,244 @@
+/**
+ * PDF Text
+ *
+ * Pulls the text out of a PDF in the browser, no library needed. It covers
+ * the PDFs that word processors and resume builders export:
+ * - content streams are uncompressed or FlateDecode (inflated with the
+ *   built-in DecompressionStream)
+ * - text is read from BT … ET blocks: (literal) and <hex> strings shown by
+ *   Tj, TJ, ' and ", with line breaks on Td / TD / T* / Tm moves
+ * Scanned PDFs (images) and fonts with custom glyph encodings have no
+ * extractable text; extractPdfText then throws so the caller can ask for a
+ * text or Markdown copy instead.
+ */
+
+// Letters a real page of text has at least this many of
+const MIN_LETTERS = 20;
+
+// A TJ gap wider than this (thousandths of an em) is a word break
+const WORD_GAP = 200;
+
+// Byte-for-byte, so binary stream data survives (TextDecoder("latin1") is windows-1252)
+function bytesToBinaryString(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    chunks.push(String.fromCharCode(...bytes.subarray(start, start + 0x8000)));
+  }
+  return chunks.join("");
+}
+
+function binaryStringToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+async function inflate(data: string): Promise<string> {
+  const stream = new Blob([binaryStringToBytes(data)]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return bytesToBinaryString(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+/**
+ * The decoded contents of every stream that can hold page text
+ */
+async function readStreams(pdf: string): Promise<string[]> {
+  const streams: string[] = [];
+  const pattern = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(pdf))) {
+    // The stream's dictionary sits between "n 0 obj" and "stream"
+    const dictionary = pdf.slice(pdf.lastIndexOf("obj", match.index), match.index);
+    const start = pattern.lastIndex;
+    const end = pdf.indexOf("endstream", start);
+    if (end === -1) break;
+    pattern.lastIndex = end + "endstream".length;
+
+    // Images, fonts and other binary payloads never hold page text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? "";
+    const names = filters.match(/\/\w+/g) ?? [];
+    if (names.some((name) => name !== "/FlateDecode")) continue;
+
+    const data = pdf.slice(start, end).replace(/\r?\n$/, "");
+    try {
+      streams.push(names.length > 0 ? await inflate(data) : data);
+    } catch {
+      // Truncated or corrupt stream: skip it, the rest may still read
+    }
+  }
+  return streams;
+}
+
+// Operators, numbers, names and dictionary brackets in a content stream
+const TOKEN = /<<|>>|\/[^\s/[\]()<>{}%]*|[^\s/[\]()<>{}%]+/y;
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+// WinAnsiEncoding punctuation that Latin-1 leaves as control codes (other
+// control codes, like ligature glyphs in subset fonts, are dropped)
+const WIN_ANSI: Record<number, string> = {
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+};
+
+function decodeWinAnsi(text: string): string {
+  return text
+    .replace(/[\x80-\x9f]/g, (char) => WIN_ANSI[char.charCodeAt(0)] ?? " ")
+    .replace(/[\x00-\x08\x0b-\x1f]/g, "");
+}
+
+/**
+ * A (literal) string starting at index, and the index after it
+ */
+function readLiteral(content: string, index: number): { text: string; next: number } {
+  let text = "";
+  let depth = 1;
+  let i = index + 1;
+  while (i < content.length && depth > 0) {
+    const char = content[i];
+    if (char === "\\") {
+      const next = content[i + 1];
+      const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        // Line continuation
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+        continue;
+      }
+      text += ESCAPES[next] ?? next ?? "";
+      i += 2;
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (depth > 0) text += char;
+    i += 1;
+  }
+  return { text, next: i };
+}
+
+function decodeHex(hex: string): string {
+  const digits = hex.replace(/[^0-9a-f]/gi, "");
+  const padded = digits.length % 2 === 0 ? digits : `${digits}0`;
+  let text = "";
+  for (let i = 0; i < padded.length; i += 2) {
+    text += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return text;
+}
+
+/**
+ * The text shown by one content stream, one line per text line
+ */
+function readContentText(content: string): string {
+  const lines: string[] = [];
+  let line = "";
+  // Operands since the last operator
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+  // Baseline of the last Tm, to tell a new line from a new word on the same line
+  let lastY: number | undefined;
+
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.trim());
+    line = "";
+  };
+  const push = (value: string | number) => (array ? array.push(value) : operands.push(value));
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === "%") {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "(") {
+      const { text, next } = readLiteral(content, i);
+      push(text);
+      i = next;
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      push(decodeHex(content.slice(i + 1, end === -1 ? content.length : end)));
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "[") {
+      array = [];
+      i += 1;
+    } else if (char === "]") {
+      if (array) operands.push(array);
+      array = null;
+      i += 1;
+    } else {
+      TOKEN.lastIndex = i;
+      const token = TOKEN.exec(content)?.[0] ?? char;
+      i += token.length;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        push(parseFloat(token));
+        continue;
+      }
+      // Font names and marked-content dictionaries carry no text
+      if (token.startsWith("/") || token === "<<" || token === ">>") continue;
+
+      // An operator
+      const strings = operands.filter((operand): operand is string => typeof operand === "string");
+      if (token === "Tj") {
+        line += strings.join("");
+      } else if (token === "'" || token === '"') {
+        breakLine();
+        line += strings.join("");
+      } else if (token === "TJ") {
+        const parts = operands.find((operand): operand is (string | number)[] => Array.isArray(operand)) ?? [];
+        parts.forEach((part) => {
+          if (typeof part === "string") line += part;
+          else if (part < -WORD_GAP && !line.endsWith(" ")) line += " ";
+        });
+      } else if (token === "T*" || token === "ET") {
+        breakLine();
+      } else if (token === "Td" || token === "TD") {
+        const y = operands[operands.length - 1];
+        if (typeof y === "number" && y !== 0) breakLine();
+        else if (line && !line.endsWith(" ")) line += " ";
+      } else if (token === "Tm") {
+        const y = operands[5];
+        if (typeof y !== "number" || y !== lastY) breakLine();
+        else if (line && !line.endsWith(" ")) line += " ";
+        lastY = typeof y === "number" ? y : undefined;
+      }
+      operands = [];
+    }
+  }
+  breakLine();
+  return decodeWinAnsi(lines.join("\n"));
+}
+
+/**
+ * All the text in a PDF, page order as stored
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdf = bytesToBinaryString(new Uint8Array(data));
+  if (!pdf.startsWith("%PDF-")) {
+    throw new Error("This file is not a PDF");
+  }
+
+  const streams = await readStreams(pdf);
+  const text = streams
+    .filter((stream) => /\bBT\b/.test(stream))
+    .map(readContentText)
+    .filter(Boolean)
+    .join("\n");
+
+  if ((text.match(/[a-z]/gi) ?? []).length < MIN_LETTERS) {
+    throw new Error("No readable text in this PDF (it may be scanned). Try a .txt or .md copy of your resume.");
+  }
+  return text;
+}
@@ -0,0 +1,71 @@
+import type { Job } from "../data/jobs";
+import { DAY_MS, compareByPostedAt } from "./jobDates";
+
+/**
+ * Recency Decay
+ *
+ * Freshness fades smoothly instead of falling off a cliff: a posting's
+ * recency factor halves every `halfLifeDays` (1 when just posted, 0.5 one
+ * half-life later, 0.25 after two). The half-life is a preference.
+ * Shared by:
+ * - the match score's recency rule (weight × factor)
+ * - the dashboard "latest" sort and the digest, which rank by freshness
+ *   score: the match score scaled between STALE_FLOOR (very old) and 1
+ *   (brand new), so a 1-day-old 70% job outranks a 30-day-old 75% one
+ */
+
+export const DEFAULT_HALF_LIFE_DAYS = 7;
+export const MIN_HALF_LIFE_DAYS = 1;
+export const MAX_HALF_LIFE_DAYS = 60;
+
+// Share of its match score a very old posting keeps when ranking by freshness
+const STALE_FLOOR = 0.5;
+
+/**
+ * Fractional days since posting (never negative); invalid dates count as new
+ */
+function getAgeInDays(job: Pick<Job, "postedAt">, now: Date): number {
+  const postedAt = Date.parse(job.postedAt);
+  if (Number.isNaN(postedAt)) return 0;
+  return Math.max(0, (now.getTime() - postedAt) / DAY_MS);
+}
+
+/**
+ * 1 for a posting made now, halving every halfLifeDays
+ */
+export function getRecencyFactor(
+  job: Pick<Job, "postedAt">,
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS,
+  now: Date = new Date()
+): number {
+  return Math.pow(0.5, getAgeInDays(job, now) / Math.max(MIN_HALF_LIFE_DAYS, halfLifeDays));
+}
+
+/**
+ * A match score weighted by freshness, for ranking
+ */
+export function getFreshnessScore(
+  job: Pick<Job, "postedAt">,
+  matchScore: number,
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS,
+  now: Date = new Date()
+): number {
+  return matchScore * (STALE_FLOOR + (1 - STALE_FLOOR) * getRecencyFactor(job, halfLifeDays, now));
+}
+
+/**
+ * Best freshness score first, newest first on ties
+ * Without match scores this is plain newest first.
+ */
+export function compareByFreshness(
+  a: Pick<Job, "postedAt"> & { matchScore?: number },
+  b: Pick<Job, "postedAt"> & { matchScore?: number },
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS,
+  now: Date = new Date()
+): number {
+  if (a.matchScore === undefined || b.matchScore === undefined) return compareByPostedAt(a, b);
+  return (
+    getFreshnessScore(b, b.matchScore, halfLifeDays, now) - getFreshnessScore(a, a.matchScore, halfLifeDays, now) ||
+    compareByPostedAt(a, b)
+  );
+}
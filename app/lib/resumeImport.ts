@@ -0,0 +1,269 @@
+import { Job } from "../data/jobs";
+import { Preferences } from "./matchScore";
+import { getKnownSkills, guessSkills } from "./feedIngest";
+import { parseSkillList } from "./skills";
+import { ExperienceLevelId, formatExperience, getExperienceLevelForYears } from "./experience";
+import { extractPdfText } from "./pdfText";
+import { escapeRegExp, splitList } from "./text";
+
+/**
+ * Resume Import
+ *
+ * Fills in Preferences from a resume (.txt, .md, or a PDF with text):
+ * - skills: the catalog's known skills found in the resume (as for feeds)
+ * - role keywords: catalog job titles, minus level words ("Senior",
+ *   "Intern"), that the resume names, most mentioned first
+ * - experience level: total time in dated roles ("Jan 2021 – Present"),
+ *   overlaps counted once. When the resume has an Experience / Work
+ *   section only its dates count; education dates never do. Internships
+ *   are left out, so a resume with only internships reads as Fresher.
+ * Nothing is saved directly: getResumeChanges lists what would change,
+ * the user picks which changes to keep, applyResumeChanges applies them.
+ */
+
+export interface ResumeProfile {
+  skills: string[];
+  roleKeywords: string[];
+  // Years in dated non-intern roles; undefined without any dated role
+  experienceYears?: number;
+  experienceLevel?: ExperienceLevelId;
+}
+
+export type ResumeField = "roleKeywords" | "skills" | "experienceLevel";
+
+export interface ResumeChange {
+  field: ResumeField;
+  label: string;
+  before: string;
+  after: string;
+  // What the resume adds (skills, role keywords) or why (experience)
+  detail: string;
+}
+
+export const RESUME_FILE_TYPES = ".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf";
+
+const MAX_ROLE_KEYWORDS = 3;
+
+// Words that say how senior a role is, not what it is
+const LEVEL_WORDS = /\b(intern|junior|senior|sr|jr|lead|staff|principal|trainee|graduate|associate)\b\.?/gi;
+
+// Ways resumes spell a catalog title differently
+const ROLE_ALIASES: Record<string, string[]> = {
+  SDE: ["software engineer", "software developer", "software development engineer"],
+  "Full Stack Developer": ["full stack engineer", "fullstack developer"],
+  "ML Engineer": ["machine learning engineer"],
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DATE = String.raw`(?:\b(?:(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s*|(\d{1,2})[/.-])?((?:19|20)\d{2})(?!\d))`;
+const DATE_RANGE = new RegExp(
+  String.raw`${DATE}\s*(?:-|–|—|to|till|until)\s*(?:${DATE}|(present|current|now|date|today))`,
+  "gi"
+);
+
+const WORK_HEADING = /^#*\s*(work|professional|employment|career)?\s*(experience|history|employment)\s*:?$/i;
+const OTHER_HEADING =
+  /^#*\s*(education|academics?|projects?|certifications?|skills|technical skills|achievements|awards|publications|volunteering|interests|summary|profile|objective|contact)\s*:?$/i;
+const EDUCATION_LINE = /\b(university|college|school|institute|b\.?\s?tech|m\.?\s?tech|bachelor|master|degree|cgpa|gpa)\b/i;
+const INTERN_LINE = /\bintern(ship)?\b/i;
+
+/**
+ * Text from a resume file; throws with a message for the user when it
+ * cannot be read
+ */
+export async function readResumeFile(file: File): Promise<string> {
+  const isPdf = file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+  const text = isPdf ? await extractPdfText(await file.arrayBuffer()) : await file.text();
+  if (!text.trim()) {
+    throw new Error("This file is empty");
+  }
+  return text;
+}
+
+/**
+ * Catalog titles without level words: "Senior Backend Developer" and
+ * "Backend Developer (1-3)" are both "Backend Developer"
+ */
+function getRoleTitles(list: Job[]): string[] {
+  const titles = list.map((job) =>
+    job.title
+      .replace(/\([^)]*\)/g, "")
+      .replace(LEVEL_WORDS, "")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+  // A bare "Engineer" or "Developer" says nothing about the role
+  return Array.from(new Set(titles)).filter((title) => /\s/.test(title) || !/^(engineer|developer)$/i.test(title));
+}
+
+function countMentions(text: string, phrase: string): number {
+  const words = phrase.split(/[\s/-]+/).map(escapeRegExp).join(String.raw`[\s/-]*`);
+  return (text.match(new RegExp(`(^|[^\\w+#])${words}(?=$|[^\\w+#])`, "gi")) ?? []).length;
+}
+
+/**
+ * Role keywords for the titles a resume names, most mentioned first
+ */
+function inferRoleKeywords(text: string, list: Job[]): string[] {
+  return getRoleTitles(list)
+    .map((title) => ({
+      title,
+      mentions: [title, ...(ROLE_ALIASES[title] ?? [])].reduce((sum, phrase) => sum + countMentions(text, phrase), 0),
+    }))
+    .filter((role) => role.mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions || b.title.length - a.title.length)
+    .slice(0, MAX_ROLE_KEYWORDS)
+    .map((role) => role.title);
+}
+
+// Months since year 0; a bare year starts in January
+function toMonth(monthName: string | undefined, monthNumber: string | undefined, year: string): number {
+  const month = monthName
+    ? MONTHS.indexOf(monthName.slice(0, 3).toLowerCase())
+    : monthNumber
+      ? Math.min(12, Math.max(1, parseInt(monthNumber))) - 1
+      : 0;
+  return parseInt(year) * 12 + month;
+}
+
+/**
+ * [start, end) month ranges of the dated work roles, internships and
+ * education left out
+ */
+function findWorkRanges(text: string, now: Date): { work: [number, number][]; internships: number } {
+  const lines = text.split(/\r?\n/).map((line) => line.replace(/[*_`>|]/g, " ").trim());
+  const hasWorkSection = lines.some((line) => WORK_HEADING.test(line));
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const work: [number, number][] = [];
+  let internships = 0;
+  let section: "work" | "other" | "none" = "none";
+
+  lines.forEach((line, index) => {
+    if (line.length < 40 && WORK_HEADING.test(line)) section = "work";
+    else if (line.length < 40 && OTHER_HEADING.test(line)) section = "other";
+    if (hasWorkSection ? section !== "work" : EDUCATION_LINE.test(line)) return;
+
+    // The role title is often on the line above its dates
+    const context = `${lines[index - 1] ?? ""} ${line}`;
+    for (const match of line.matchAll(DATE_RANGE)) {
+      const start = toMonth(match[1], match[2], match[3]);
+      // A named end month counts in full ("Jan – Dec 2022" is 12 months); a bare end year does not
+      const end = match[7] ? currentMonth + 1 : toMonth(match[4], match[5], match[6]) + (match[4] || match[5] ? 1 : 0);
+      if (end <= start || start > currentMonth) continue;
+      if (INTERN_LINE.test(context)) {
+        internships += 1;
+      } else {
+        work.push([start, Math.min(end, currentMonth + 1)]);
+      }
+    }
+  });
+  return { work, internships };
+}
+
+/**
+ * Total months covered by ranges, overlaps counted once
+ */
+function countMonths(ranges: [number, number][]): number {
+  let total = 0;
+  let coveredUntil = -Infinity;
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      total += Math.max(0, end - Math.max(start, coveredUntil));
+      coveredUntil = Math.max(coveredUntil, end);
+    });
+  return total;
+}
+
+/**
+ * Skills, role keywords and experience found in a resume's text
+ */
+export function parseResume(text: string, list: Job[], now: Date = new Date()): ResumeProfile {
+  const { work, internships } = findWorkRanges(text, now);
+  const profile: ResumeProfile = {
+    skills: guessSkills(text, getKnownSkills(list)),
+    roleKeywords: inferRoleKeywords(text, list),
+  };
+
+  if (work.length > 0) {
+    profile.experienceYears = Math.round((countMonths(work) / 12) * 10) / 10;
+    profile.experienceLevel = getExperienceLevelForYears(profile.experienceYears);
+  } else if (internships > 0) {
+    profile.experienceYears = 0;
+    profile.experienceLevel = "Fresher";
+  }
+  return profile;
+}
+
+function formatYears(years: number): string {
+  return `${years} ${years === 1 ? "year" : "years"}`;
+}
+
+/**
+ * What importing a resume would change, field by field; lists are merged
+ * (nothing the user already entered is dropped)
+ */
+export function getResumeChanges(preferences: Preferences, profile: ResumeProfile): ResumeChange[] {
+  const changes: ResumeChange[] = [];
+
+  const currentRoles = splitList(preferences.roleKeywords);
+  const newRoles = profile.roleKeywords.filter(
+    (role) => !currentRoles.some((current) => current.toLowerCase() === role.toLowerCase())
+  );
+  if (newRoles.length > 0) {
+    changes.push({
+      field: "roleKeywords",
+      label: "Role Keywords",
+      before: preferences.roleKeywords.trim(),
+      after: [...currentRoles, ...newRoles].join(", "),
+      detail: `Adds ${newRoles.join(", ")}`,
+    });
+  }
+
+  const currentSkills = parseSkillList(preferences.skills);
+  const newSkills = profile.skills.filter((skill) => !currentSkills.includes(skill));
+  if (newSkills.length > 0) {
+    changes.push({
+      field: "skills",
+      label: "Skills",
+      before: preferences.skills.trim(),
+      after: [...splitList(preferences.skills), ...newSkills].join(", "),
+      detail: `Adds ${newSkills.length} ${newSkills.length === 1 ? "skill" : "skills"}: ${newSkills.join(", ")}`,
+    });
+  }
+
+  if (profile.experienceLevel && profile.experienceLevel !== preferences.experienceLevel) {
+    changes.push({
+      field: "experienceLevel",
+      label: "Experience Level",
+      before: preferences.experienceLevel ? formatExperience(preferences.experienceLevel) : "",
+      after: formatExperience(profile.experienceLevel),
+      detail:
+        profile.experienceYears && profile.experienceYears > 0
+          ? `${formatYears(profile.experienceYears)} in dated roles`
+          : "Only internships are dated",
+    });
+  }
+  return changes;
+}
+
+/**
+ * Preferences with the chosen changes applied
+ */
+export function applyResumeChanges(
+  preferences: Preferences,
+  profile: ResumeProfile,
+  fields: ResumeField[]
+): Preferences {
+  const next = { ...preferences };
+  getResumeChanges(preferences, profile)
+    .filter((change) => fields.includes(change.field))
+    .forEach((change) => {
+      if (change.field === "experienceLevel") {
+        next.experienceLevel = profile.experienceLevel ?? next.experienceLevel;
+      } else {
+        next[change.field] = change.after;
+      }
+    });
+  return next;
+}
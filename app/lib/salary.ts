@@ -0,0 +1,210 @@
+import { Job } from "../data/jobs";
+
+/**
+ * Salary Model
+ *
+ * salaryRange is free text ("3–5 LPA", "₹25k–₹35k/month Internship").
+ * parseSalary turns it into a structured range so that sorting, filtering
+ * and display all compare like with like:
+ * - min/max are always annual INR, whatever the posting quoted
+ * - period remembers how it was quoted so display can convert back
+ * - a range is two amounts joined by a dash or "to" ("15–20 LPA"); other
+ *   amounts ("15 LPA + 2L bonus") are extras, and only the first one counts
+ * - unparseable text ("Not disclosed") yields null, and so does a salary in
+ *   another currency ("$100k–120k"), which cannot be compared with INR bands;
+ *   display then shows the posting's own text
+ */
+
+export interface Salary {
+  // Annual INR
+  min: number;
+  max: number;
+  currency: "INR";
+  period: "year" | "month";
+  kind: "salary" | "stipend";
+}
+
+export const LAKH = 100_000;
+const CRORE = 10_000_000;
+
+export interface SalaryBand {
+  id: string;
+  label: string;
+  // Annual INR, max exclusive
+  min: number;
+  max: number;
+}
+
+export const SALARY_BANDS: SalaryBand[] = [
+  { id: "0-5", label: "Under 5 LPA", min: 0, max: 5 * LAKH },
+  { id: "5-10", label: "5–10 LPA", min: 5 * LAKH, max: 10 * LAKH },
+  { id: "10-20", label: "10–20 LPA", min: 10 * LAKH, max: 20 * LAKH },
+  { id: "20+", label: "20+ LPA", min: 20 * LAKH, max: Infinity },
+];
+
+/**
+ * Scale a number by its unit suffix: k (thousand), L/lakh, Cr/crore
+ */
+function applyUnit(value: number, unit: string | undefined): number {
+  switch ((unit ?? "").toLowerCase()) {
+    case "k":
+      return value * 1_000;
+    case "l":
+    case "lakh":
+    case "lakhs":
+    case "lpa":
+      return value * LAKH;
+    case "cr":
+    case "crore":
+      return value * CRORE;
+    default:
+      return value;
+  }
+}
+
+const AMOUNT = String.raw`₹?\s?(\d+(?:\.\d+)?)\s?(k|lakhs?|l|cr|crore)?\b`;
+const AMOUNT_PATTERN = new RegExp(AMOUNT, "i");
+const RANGE_PATTERN = new RegExp(String.raw`${AMOUNT}\s?(?:[-–—]|to)\s?${AMOUNT}`, "i");
+const FOREIGN_CURRENCY = /[$€£¥]|\b(usd|eur|gbp|aud|cad|sgd|aed)\b/i;
+
+/**
+ * Parse free-text salary into a structured range
+ */
+export function parseSalary(text: string): Salary | null {
+  const normalized = text.replace(/,/g, "").replace(/\s+/g, " ").trim();
+  if (FOREIGN_CURRENCY.test(normalized)) return null;
+
+  // The first range, or failing that the first amount on its own
+  const range = normalized.match(RANGE_PATTERN);
+  const single = range ? null : normalized.match(AMOUNT_PATTERN);
+  const amounts = range
+    ? [
+        { value: parseFloat(range[1]), unit: range[2] },
+        { value: parseFloat(range[3]), unit: range[4] },
+      ]
+    : single
+      ? [{ value: parseFloat(single[1]), unit: single[2] }]
+      : [];
+  if (amounts.length === 0) return null;
+
+  const isLpa = /\b(lpa|lakhs? per annum|lakhs?)\b/i.test(normalized);
+  const isMonthly = /\/\s?(month|mo)\b|per month|monthly|\bpm\b/i.test(normalized);
+  const isStipend = /intern|stipend/i.test(normalized);
+
+  const [first, second = first] = amounts;
+  // "3–5 LPA": the LPA unit applies to both ends; bare numbers inherit it
+  const defaultUnit = isLpa ? "lpa" : undefined;
+  let min = applyUnit(first.value, first.unit ?? second.unit ?? defaultUnit);
+  let max = applyUnit(second.value, second.unit ?? defaultUnit);
+  if (min > max) [min, max] = [max, min];
+  if (max <= 0) return null;
+
+  const factor = isMonthly ? 12 : 1;
+  return {
+    min: min * factor,
+    max: max * factor,
+    currency: "INR",
+    period: isMonthly ? "month" : "year",
+    kind: isStipend ? "stipend" : "salary",
+  };
+}
+
+const salaryCache = new Map<string, Salary | null>();
+
+/**
+ * Structured salary for a job, parsed once per distinct salaryRange text
+ */
+export function getJobSalary(job: Job): Salary | null {
+  if (!salaryCache.has(job.salaryRange)) {
+    salaryCache.set(job.salaryRange, parseSalary(job.salaryRange));
+  }
+  return salaryCache.get(job.salaryRange) ?? null;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1).replace(/\.0$/, "");
+}
+
+/**
+ * Consistent display: "₹3–5 LPA" or "₹25k–35k/month stipend"
+ */
+export function formatSalary(salary: Salary | null): string {
+  if (!salary) return "Not disclosed";
+
+  const factor = salary.period === "month" ? 12 : 1;
+  const range = (scale: number, unit: string, suffix: string) => {
+    const min = `${formatNumber(salary.min / factor / scale)}${unit}`;
+    const max = `${formatNumber(salary.max / factor / scale)}${unit}`;
+    return salary.min === salary.max ? `₹${min}${suffix}` : `₹${min}–${max}${suffix}`;
+  };
+
+  if (salary.period === "month") {
+    const text = salary.max / factor >= LAKH ? range(LAKH, "L", "/month") : range(1_000, "k", "/month");
+    return salary.kind === "stipend" ? `${text} stipend` : text;
+  }
+  return range(LAKH, "", " LPA");
+}
+
+export function formatJobSalary(job: Job): string {
+  const salary = getJobSalary(job);
+  return salary ? formatSalary(salary) : job.salaryRange;
+}
+
+/**
+ * Whether a job's annual range overlaps a salary band
+ * Undisclosed salaries never match a band.
+ */
+export function isInSalaryBand(job: Job, bandId: string): boolean {
+  const band = SALARY_BANDS.find((b) => b.id === bandId);
+  const salary = getJobSalary(job);
+  if (!band || !salary) return false;
+
+  return salary.max > band.min && salary.min < band.max;
+}
+
+/**
+ * Compare by annual pay; undisclosed salaries sort last in both directions
+ */
+export function compareSalary(a: Job, b: Job, direction: "high" | "low"): number {
+  const salaryA = getJobSalary(a);
+  const salaryB = getJobSalary(b);
+  if (!salaryA || !salaryB) return (salaryA ? 0 : 1) - (salaryB ? 0 : 1);
+
+  if (direction === "high") {
+    return salaryB.max - salaryA.max || salaryB.min - salaryA.min;
+  }
+  return salaryA.min - salaryB.min || salaryA.max - salaryB.max;
+}
+
+/**
+ * The least a user will take: an annual salary or a monthly stipend
+ * amount is INR per period; 0 means no floor.
+ */
+export interface SalaryFloor {
+  amount: number;
+  period: "year" | "month";
+}
+
+export const NO_SALARY_FLOOR: SalaryFloor = { amount: 0, period: "year" };
+
+export function getAnnualFloor(floor: SalaryFloor): number {
+  return floor.period === "month" ? floor.amount * 12 : floor.amount;
+}
+
+/**
+ * "₹6 LPA" or "₹20k/month"
+ */
+export function formatSalaryFloor(floor: SalaryFloor): string {
+  const annual = getAnnualFloor(floor);
+  return formatSalary({ min: annual, max: annual, currency: "INR", period: floor.period, kind: "salary" });
+}
+
+/**
+ * Whether a job can pay at least the floor (the top of its range reaches it)
+ * null when the job does not disclose its salary.
+ */
+export function meetsSalaryFloor(job: Job, floor: SalaryFloor): boolean | null {
+  const salary = getJobSalary(job);
+  if (!salary) return null;
+  return salary.max >= getAnnualFloor(floor);
+}
@@ -0,0 +1,38 @@
+import { Job, getListingIds } from "../data/jobs";
+import { v, readStorage } from "./validation";
+
+const SAVED_JOBS_KEY = "jnt_saved_jobs";
+
+/**
+ * Load saved job ids from localStorage
+ * Returns empty array if none exists
+ */
+export function loadSavedJobIds(): string[] {
+  return readStorage(SAVED_JOBS_KEY, v.array(v.string({ minLength: 1 })), []);
+}
+
+/**
+ * Persist saved job ids to localStorage
+ */
+export function storeSavedJobIds(jobIds: string[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(SAVED_JOBS_KEY, JSON.stringify(jobIds));
+}
+
+/**
+ * Whether a job is saved, under its own id or any merged listing's id
+ * (a job saved before its duplicate was merged)
+ */
+export function isJobSaved(job: Job, savedJobIds: string[]): boolean {
+  return getListingIds(job).some((id) => savedJobIds.includes(id));
+}
+
+/**
+ * Saved ids after saving or unsaving a job
+ * Unsaving drops the id of every listing merged into it.
+ */
+export function toggleSavedJob(job: Job, savedJobIds: string[]): string[] {
+  if (!isJobSaved(job, savedJobIds)) return [...savedJobIds, job.id];
+  const listingIds = getListingIds(job);
+  return savedJobIds.filter((id) => !listingIds.includes(id));
+}
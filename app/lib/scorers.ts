@@ -0,0 +1,255 @@
+import { Job } from "../data/jobs";
+import { compareByPostedAt } from "./jobDates";
+import { BaseMatchScore, MatchScoreResult, Preferences, finishMatchScore, getRuleScore } from "./matchScore";
+import { LearnedModel, EMPTY_MODEL } from "./feedback";
+import { normalizeSkills, parseSkillList, skillCovers, getSkillSearchTerms } from "./skills";
+import { tokenize, stem } from "./searchIndex";
+
+/**
+ * Scorer Registry
+ *
+ * A scorer turns a job and the user's preferences into a base score (0–100)
+ * and explains it; finishMatchScore then adds what was learned from feedback
+ * and applies exclusion rules, the same for every scorer.
+ * - rules: the weighted rules in app/lib/matchScore.ts (default)
+ * - tfidf: text similarity between the job and the user's keywords and skills,
+ *   weighed against the catalog passed in
+ * - weightedSkills: skills only, the first skill listed in Settings counting most
+ *
+ * Adding a scorer means adding an entry here (or calling registerScorer);
+ * Settings and the /compare page read everything from the registry.
+ */
+
+export interface Scorer {
+  id: string;
+  name: string;
+  description: string;
+  // catalog: every listing the job is scored among (the corpus for scorers
+  // that need one; rules and weightedSkills ignore it)
+  score: (job: Job, preferences: Preferences, catalog: Job[]) => BaseMatchScore;
+}
+
+export const DEFAULT_SCORER_ID = "rules";
+
+// TF-IDF
+
+interface TfIdfIndex {
+  // stem → number of jobs containing it
+  documentFrequency: Map<string, number>;
+  documentCount: number;
+  vectors: Map<string, Map<string, number>>;
+}
+
+function jobTerms(job: Job): string[] {
+  const skills = [...job.skills, ...(job.niceToHaveSkills ?? [])].flatMap(getSkillSearchTerms);
+  return tokenize([job.title, ...skills, job.description].join(" ")).map(stem);
+}
+
+function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+}
+
+// Unit-length vector of (1 + log tf) × idf
+function toVector(counts: Map<string, number>, index: TfIdfIndex): Map<string, number> {
+  const vector = new Map<string, number>();
+  let length = 0;
+  counts.forEach((count, term) => {
+    const idf = Math.log(1 + index.documentCount / (index.documentFrequency.get(term) ?? 1));
+    const value = (1 + Math.log(count)) * idf;
+    vector.set(term, value);
+    length += value * value;
+  });
+  length = Math.sqrt(length);
+  vector.forEach((value, term) => vector.set(term, length > 0 ? value / length : 0));
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let sum = 0;
+  a.forEach((value, term) => {
+    sum += value * (b.get(term) ?? 0);
+  });
+  return sum;
+}
+
+// Memo only: the index is a pure function of the list it was built from
+const tfIdfCache = new WeakMap<Job[], TfIdfIndex>();
+
+function getTfIdfIndex(list: Job[]): TfIdfIndex {
+  let index = tfIdfCache.get(list);
+  if (index) return index;
+
+  const counts = list.map((job) => ({ id: job.id, counts: termCounts(jobTerms(job)) }));
+  const documentFrequency = new Map<string, number>();
+  for (const { counts: jobCounts } of counts) {
+    jobCounts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+  index = { documentFrequency, documentCount: list.length, vectors: new Map() };
+  for (const { id, counts: jobCounts } of counts) {
+    index.vectors.set(id, toVector(jobCounts, index));
+  }
+  tfIdfCache.set(list, index);
+  return index;
+}
+
+function profileText(preferences: Preferences): string {
+  return [preferences.roleKeywords, ...parseSkillList(preferences.skills).flatMap(getSkillSearchTerms)].join(" ");
+}
+
+// Cosine similarity (0–1) as a 0–100 score, so a score means the same
+// whatever else the catalog holds
+function tfIdfScore(job: Job, preferences: Preferences, catalog: Job[]): BaseMatchScore {
+  const profileTerms = tokenize(profileText(preferences)).map(stem);
+  if (profileTerms.length === 0) {
+    return { score: 0, rules: [], summary: "Add role keywords or skills to compare your profile with job text." };
+  }
+
+  const index = getTfIdfIndex(catalog);
+  const profile = toVector(termCounts(profileTerms), index);
+
+  const vector = index.vectors.get(job.id) ?? toVector(termCounts(jobTerms(job)), index);
+  const similarity = cosine(profile, vector);
+  const shared = Array.from(profile.keys())
+    .filter((term) => vector.has(term))
+    .sort((a, b) => (profile.get(b) ?? 0) * (vector.get(b) ?? 0) - (profile.get(a) ?? 0) * (vector.get(a) ?? 0))
+    .slice(0, 5);
+
+  return {
+    score: Math.min(100, Math.round(similarity * 100)),
+    rules: [],
+    summary:
+      shared.length > 0
+        ? `Text similarity ${similarity.toFixed(2)}: shares ${shared
+            .map((term) => `"${term}"`)
+            .join(", ")} with your keywords and skills`
+        : "Shares no words with your keywords and skills",
+  };
+}
+
+// Weighted skills
+
+function weightedSkillsScore(job: Job, preferences: Preferences): BaseMatchScore {
+  const userSkills = parseSkillList(preferences.skills);
+  const required = normalizeSkills(job.skills);
+  const niceToHave = normalizeSkills(job.niceToHaveSkills ?? []).filter((skill) => !required.includes(skill));
+
+  // Rank (0-based) of the highest-listed user skill that covers a job skill
+  const rankFor = (jobSkill: string) => userSkills.findIndex((userSkill) => skillCovers(userSkill, jobSkill));
+  const credit = (jobSkill: string) => {
+    const rank = rankFor(jobSkill);
+    return rank === -1 ? 0 : (userSkills.length - rank) / userSkills.length;
+  };
+
+  const total = 2 * required.length + niceToHave.length;
+  const earned =
+    required.reduce((sum, skill) => sum + 2 * credit(skill), 0) +
+    niceToHave.reduce((sum, skill) => sum + credit(skill), 0);
+  const score = total > 0 ? Math.round((earned / total) * 100) : 0;
+
+  const jobSkills = [...required, ...niceToHave];
+  const matched = jobSkills.filter((skill) => rankFor(skill) !== -1);
+  const missing = jobSkills.filter((skill) => rankFor(skill) === -1);
+  const detail =
+    userSkills.length === 0
+      ? "No skills set"
+      : jobSkills.length === 0
+        ? "The job lists no skills"
+        : [
+            matched.length > 0 ? matched.map((skill) => `${skill} (your #${rankFor(skill) + 1})`).join(", ") : "",
+            missing.length > 0 ? `missing ${missing.join(", ")}` : "",
+          ]
+            .filter(Boolean)
+            .join("; ");
+
+  return {
+    score,
+    rules: [
+      {
+        id: "skills",
+        label: "Skills, weighted by your order",
+        fired: score > 0,
+        points: score,
+        maxPoints: 100,
+        matched,
+        detail,
+      },
+    ],
+  };
+}
+
+const builtInScorers: Scorer[] = [
+  {
+    id: DEFAULT_SCORER_ID,
+    name: "Rules",
+    description: "Weighted rules for keywords, location, mode, experience, skills, recency, source and salary.",
+    score: getRuleScore,
+  },
+  {
+    id: "tfidf",
+    name: "Text similarity (TF-IDF)",
+    description: "How closely a job's title, skills and description resemble your keywords and skills.",
+    score: tfIdfScore,
+  },
+  {
+    id: "weightedSkills",
+    name: "Weighted skills",
+    description: "Skills only. The first skill you list counts most; required skills count double.",
+    score: weightedSkillsScore,
+  },
+];
+
+const registry = new Map<string, Scorer>(builtInScorers.map((scorer) => [scorer.id, scorer]));
+
+/**
+ * Register (or replace) a scorer
+ */
+export function registerScorer(scorer: Scorer): void {
+  registry.set(scorer.id, scorer);
+}
+
+export function listScorers(): Scorer[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Get a scorer by id
+ * Unknown ids (a scorer that was removed) fall back to the rules scorer.
+ */
+export function getScorer(id: string): Scorer {
+  return registry.get(id) ?? (registry.get(DEFAULT_SCORER_ID) as Scorer);
+}
+
+/**
+ * Score a job with the user's scorer (or the one given), including feedback
+ * and exclusions
+ * catalog is the full list the job belongs to, not a filtered page of it.
+ */
+export function scoreJob(
+  job: Job,
+  catalog: Job[],
+  preferences: Preferences,
+  model: LearnedModel = EMPTY_MODEL,
+  scorerId: string = preferences.scorerId
+): MatchScoreResult {
+  return finishMatchScore(job, preferences, getScorer(scorerId).score(job, preferences, catalog), model);
+}
+
+/**
+ * Jobs ranked best first under a scorer, newest first on ties; jobs hidden by
+ * exclusion rules are left out
+ * list may be part of catalog (the active jobs); scores are taken against all of it.
+ */
+export function rankJobs(
+  list: Job[],
+  catalog: Job[],
+  preferences: Preferences,
+  model: LearnedModel = EMPTY_MODEL,
+  scorerId: string = preferences.scorerId
+): { job: Job; match: MatchScoreResult }[] {
+  return list
+    .map((job) => ({ job, match: scoreJob(job, catalog, preferences, model, scorerId) }))
+    .filter(({ match }) => !match.hidden)
+    .sort((a, b) => b.match.score - a.match.score || compareByPostedAt(a.job, b.job));
+}
@@ -0,0 +1,208 @@
+import type { Job } from "../data/jobs";
+import { getSkillSearchTerms } from "./skills";
+
+/**
+ * Search Index
+ *
+ * In-memory inverted index over every text field of the catalog.
+ * - Field weights: title 5, skills 4, company 3, location 2, description 1
+ * - Terms are lowercased and lightly stemmed ("microservices" → "microservice",
+ *   "engineering" → "engineer")
+ * - A query term also matches indexed terms it prefixes ("kube" → "kubernetes"),
+ *   at half weight
+ * - Every query term must match (AND); rarer terms count more (idf)
+ * - Skills are indexed with their aliases and parent skills, so "js" finds
+ *   JavaScript roles and "frontend" finds React roles
+ * The index covers the whole catalog and is built once per catalog; a
+ * filtered list keeps the matches among its own ids, so scores (and idf) do
+ * not change with the other filters.
+ */
+
+const FIELD_WEIGHTS = {
+  title: 5,
+  skills: 4,
+  company: 3,
+  location: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 2;
+
+export interface SearchIndex {
+  // stem → job id → weighted term frequency
+  postings: Map<string, Map<string, number>>;
+  // All stems, sorted, for prefix lookups
+  terms: string[];
+  documentCount: number;
+}
+
+/**
+ * Lowercase word tokens; keeps "+" and "#" so C++ and C# stay searchable
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9+#]+/g) ?? [];
+}
+
+/**
+ * Light suffix stripping (plurals, -ing, -ed)
+ * Short words and words ending in "ss"/"us"/"is" are left alone.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /[^a-z]/.test(token)) return token;
+  if (token.endsWith("ies") && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (token.endsWith("ing") && token.length > 5) return token.slice(0, -3);
+  if (token.endsWith("ed") && token.length > 4) return token.slice(0, -2);
+  if (/(ss|us|is)$/.test(token)) return token;
+  if (/(ch|sh|x)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith("s")) return token.slice(0, -1);
+  return token;
+}
+
+function fieldText(job: Job, field: SearchField): string {
+  return field === "skills"
+    ? [...job.skills, ...(job.niceToHaveSkills ?? [])].flatMap(getSkillSearchTerms).join(" ")
+    : job[field];
+}
+
+export function buildSearchIndex(list: Job[]): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+
+  for (const job of list) {
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const token of tokenize(fieldText(job, field))) {
+        const term = stem(token);
+        const docs = postings.get(term) ?? new Map<string, number>();
+        docs.set(job.id, (docs.get(job.id) ?? 0) + FIELD_WEIGHTS[field]);
+        postings.set(term, docs);
+      }
+    }
+  }
+
+  return {
+    postings,
+    terms: Array.from(postings.keys()).sort(),
+    documentCount: list.length,
+  };
+}
+
+const indexCache = new WeakMap<Job[], SearchIndex>();
+
+/**
+ * Index for a catalog, built once per catalog instance
+ * Pass the full catalog: a filtered or sorted copy would be indexed again.
+ */
+export function getSearchIndex(list: Job[]): SearchIndex {
+  let index = indexCache.get(list);
+  if (!index) {
+    index = buildSearchIndex(list);
+    indexCache.set(list, index);
+  }
+  return index;
+}
+
+/**
+ * Indexed stems that start with a query term (binary search on sorted terms)
+ */
+function termsWithPrefix(index: SearchIndex, prefix: string): string[] {
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const result: string[] = [];
+  for (let i = low; i < index.terms.length && index.terms[i].startsWith(prefix); i++) {
+    result.push(index.terms[i]);
+  }
+  return result;
+}
+
+/**
+ * Relevance score per matching job id; jobs missing any query term are left out
+ */
+export function searchIndex(index: SearchIndex, query: string): Map<string, number> {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return new Map();
+
+  let scores: Map<string, number> | null = null;
+
+  for (const token of queryTokens) {
+    const exact = stem(token);
+    const termScores = new Map<string, number>();
+    const candidates = new Set([exact]);
+    if (token.length >= MIN_PREFIX_LENGTH) {
+      termsWithPrefix(index, token).forEach((term) => candidates.add(term));
+    }
+
+    candidates.forEach((term) => {
+      const docs = index.postings.get(term);
+      if (!docs) return;
+      const idf = Math.log(1 + index.documentCount / docs.size);
+      const weight = term === exact ? 1 : PREFIX_WEIGHT;
+      docs.forEach((frequency, id) => {
+        termScores.set(id, Math.max(termScores.get(id) ?? 0, frequency * idf * weight));
+      });
+    });
+
+    const previous: Map<string, number> | null = scores;
+    const combined = new Map<string, number>();
+    termScores.forEach((score, id) => {
+      if (previous === null) {
+        combined.set(id, score);
+      } else if (previous.has(id)) {
+        combined.set(id, (previous.get(id) ?? 0) + score);
+      }
+    });
+    scores = combined;
+    if (scores.size === 0) break;
+  }
+
+  return scores ?? new Map();
+}
+
+/**
+ * Search the catalog; returns relevance scores for the jobs that match
+ */
+export function searchJobs(catalog: Job[], query: string): Map<string, number> {
+  return searchIndex(getSearchIndex(catalog), query);
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into segments, marking the words a query matched
+ * Uses the same rules as the index: stem equality or query-term prefix.
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [{ text, match: false }];
+
+  const stems = new Set(queryTokens.map(stem));
+  const isMatch = (word: string) => {
+    const lower = word.toLowerCase();
+    return (
+      stems.has(stem(lower)) ||
+      queryTokens.some((token) => token.length >= MIN_PREFIX_LENGTH && stem(lower).startsWith(token))
+    );
+  };
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/[A-Za-z0-9+#]+/g)) {
+    const start = match.index ?? 0;
+    if (!isMatch(match[0])) continue;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
@@ -0,0 +1,124 @@
+import { Job, getListingIds } from "../data/jobs";
+import { normalizeCompany } from "./dedupe";
+import { normalizeSkills } from "./skills";
+import { normalizeLocation } from "./locations";
+import { getExperienceCredit } from "./experience";
+import { getActiveJobs } from "./jobDates";
+import { tokenize, stem } from "./searchIndex";
+
+/**
+ * Similar Jobs
+ *
+ * "More like this" for one listing. Similarity (0–1) is a weighted sum of:
+ * - skills (0.45): cosine of skill vectors; must-haves weigh 1, nice-to-haves 0.5
+ * - title (0.25): overlap (Jaccard) of stemmed title words, minus filler
+ *   like "and" or "of"
+ * - experience (0.1): same band 1, neighbouring band 0.5
+ * - company (0.1), mode (0.05) and city (0.05): same or not
+ * Each suggestion comes with a one-line reason ("shares React, TypeScript; same city").
+ * Expired listings and other listings of the same job are never suggested.
+ */
+
+const WEIGHTS = {
+  skills: 0.45,
+  title: 0.25,
+  experience: 0.1,
+  company: 0.1,
+  mode: 0.05,
+  location: 0.05,
+};
+
+const NICE_TO_HAVE_WEIGHT = 0.5;
+const TITLE_STOPWORDS = new Set(["and", "of", "the", "for", "in", "at", "to", "a", "an", "with", "&"]);
+const SIMILAR_TITLE = 0.5;
+
+export const SIMILAR_JOBS_LIMIT = 5;
+
+export interface SimilarJob {
+  job: Job;
+  similarity: number;
+  reason: string;
+}
+
+function skillVector(job: Job): Map<string, number> {
+  const vector = new Map<string, number>();
+  normalizeSkills(job.niceToHaveSkills ?? []).forEach((skill) => vector.set(skill, NICE_TO_HAVE_WEIGHT));
+  normalizeSkills(job.skills).forEach((skill) => vector.set(skill, 1));
+  return vector;
+}
+
+function titleTokens(job: Job): Set<string> {
+  return new Set(
+    tokenize(job.title)
+      .filter((token) => !TITLE_STOPWORDS.has(token))
+      .map(stem)
+  );
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((value, key) => {
+    dot += value * (b.get(key) ?? 0);
+  });
+  const length = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  const lengths = length(a) * length(b);
+  return lengths > 0 ? dot / lengths : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = Array.from(a).filter((token) => b.has(token)).length;
+  const union = new Set([...a, ...b]).size;
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * How alike two jobs are (0–1), and why
+ */
+export function compareJobs(base: Job, other: Job): { similarity: number; reason: string } {
+  const baseSkills = skillVector(base);
+  const otherSkills = skillVector(other);
+  const skillScore = cosine(baseSkills, otherSkills);
+  const titleScore = jaccard(titleTokens(base), titleTokens(other));
+  const experienceScore =
+    getExperienceCredit(other.experience, base.experience) > 0 ? (base.experience === other.experience ? 1 : 0.5) : 0;
+  const sameCompany = normalizeCompany(base.company) === normalizeCompany(other.company);
+  const sameMode = base.mode === other.mode;
+  const sameCity = normalizeLocation(base.location) === normalizeLocation(other.location);
+
+  const similarity =
+    WEIGHTS.skills * skillScore +
+    WEIGHTS.title * titleScore +
+    WEIGHTS.experience * experienceScore +
+    WEIGHTS.company * Number(sameCompany) +
+    WEIGHTS.mode * Number(sameMode) +
+    WEIGHTS.location * Number(sameCity);
+
+  // Must-haves first, so the reason names the skills that matter most
+  const sharedSkills = Array.from(baseSkills.keys())
+    .filter((skill) => otherSkills.has(skill))
+    .sort((a, b) => (baseSkills.get(b) ?? 0) - (baseSkills.get(a) ?? 0));
+  const reasons = [
+    sharedSkills.length > 0 &&
+      `shares ${sharedSkills.slice(0, 3).join(", ")}${sharedSkills.length > 3 ? ` +${sharedSkills.length - 3}` : ""}`,
+    titleScore >= SIMILAR_TITLE && "similar title",
+    sameCompany && `also at ${other.company}`,
+    experienceScore === 1 && "same level",
+    sameCity ? (normalizeLocation(base.location) === "Remote" ? "also remote" : "same city") : sameMode && `also ${other.mode}`,
+  ].filter((reason): reason is string => Boolean(reason));
+
+  return { similarity, reason: reasons.join("; ") || "related role" };
+}
+
+/**
+ * The listings most like a job, best first
+ */
+export function getSimilarJobs(job: Job, list: Job[], limit = SIMILAR_JOBS_LIMIT): SimilarJob[] {
+  const ownIds = getListingIds(job);
+  return getActiveJobs(list)
+    .filter((other) => !getListingIds(other).some((id) => ownIds.includes(id)))
+    .map((other) => ({ job: other, ...compareJobs(job, other) }))
+    .filter((candidate) => candidate.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,221 @@
+/**
+ * Skill Taxonomy
+ *
+ * Canonical skill names with aliases and parent skills, so that
+ * "node", "NodeJS" and "Node.js" are one skill and React counts as Frontend.
+ * - normalizeSkill maps any spelling to its canonical name
+ *   (unknown skills pass through trimmed)
+ * - Matching is exact on canonical names: "Java" never matches "JavaScript"
+ * - A skill covers itself and all of its ancestors: knowing React satisfies a
+ *   "Frontend" requirement, but knowing "Frontend" does not satisfy "React"
+ * - So a parent must be something the skill implies you know: React implies
+ *   JavaScript, but Redux does not imply React, nor Angular TypeScript
+ */
+
+export interface SkillDefinition {
+  name: string;
+  aliases?: string[];
+  parents?: string[];
+}
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  // Areas
+  { name: "Frontend", aliases: ["frontend development", "web frontend"] },
+  { name: "Backend", aliases: ["backend development", "server side"] },
+  { name: "Mobile Development", aliases: ["mobile", "mobile apps", "app development"] },
+  { name: "Databases", aliases: ["database", "dbms"] },
+  { name: "Cloud", aliases: ["cloud computing"] },
+  { name: "DevOps", aliases: ["sre"] },
+  { name: "Testing", aliases: ["qa", "quality assurance", "software testing"] },
+  { name: "Security", aliases: ["cybersecurity", "infosec"] },
+  { name: "Data Analysis", aliases: ["data analytics", "analytics"] },
+  { name: "Data Engineering", aliases: ["big data"] },
+  { name: "Machine Learning", aliases: ["ml", "ai/ml", "ai", "artificial intelligence"] },
+
+  // Languages
+  { name: "JavaScript", aliases: ["js", "ecmascript", "es6"] },
+  { name: "TypeScript", aliases: ["ts"], parents: ["JavaScript"] },
+  { name: "Java", aliases: ["core java", "java 8", "j2ee"] },
+  { name: "Python", aliases: ["py", "python3"] },
+  { name: "Go", aliases: ["golang"], parents: ["Backend"] },
+  { name: "Kotlin" },
+  { name: "Swift", parents: ["iOS"] },
+  { name: "Dart" },
+  { name: "C", aliases: ["c language", "c programming"] },
+  { name: "C++", aliases: ["cpp", "c plus plus"] },
+  { name: "C#", aliases: ["csharp"] },
+  { name: "Scala" },
+
+  // Frontend
+  { name: "HTML", aliases: ["html5"], parents: ["Frontend"] },
+  { name: "CSS", aliases: ["css3"], parents: ["Frontend"] },
+  { name: "Tailwind", aliases: ["tailwind css"], parents: ["CSS"] },
+  { name: "React", aliases: ["react.js"], parents: ["Frontend", "JavaScript"] },
+  { name: "Redux", parents: ["Frontend", "JavaScript"] },
+  { name: "Next.js", parents: ["Frontend", "JavaScript"] },
+  { name: "Angular", aliases: ["angularjs"], parents: ["Frontend", "JavaScript"] },
+  { name: "Vue.js", aliases: ["vue"], parents: ["Frontend", "JavaScript"] },
+  { name: "Ember.js", aliases: ["ember"], parents: ["Frontend", "JavaScript"] },
+  { name: "RxJS", parents: ["JavaScript"] },
+
+  // Backend
+  { name: "Node.js", aliases: ["node"], parents: ["Backend", "JavaScript"] },
+  { name: "Express", aliases: ["express.js"], parents: ["Node.js"] },
+  { name: "Spring", aliases: ["spring framework"], parents: ["Java", "Backend"] },
+  { name: "Spring Boot", parents: ["Spring"] },
+  { name: "Hibernate", parents: ["Java"] },
+  { name: "Django", parents: ["Python", "Backend"] },
+  { name: "Flask", parents: ["Python", "Backend"] },
+  { name: "GraphQL", parents: ["Backend"] },
+  { name: "Microservices", aliases: ["microservice"], parents: ["Backend"] },
+
+  // Mobile
+  { name: "Android", aliases: ["android development"], parents: ["Mobile Development"] },
+  { name: "iOS", aliases: ["ios development"], parents: ["Mobile Development"] },
+  { name: "Flutter", parents: ["Mobile Development", "Dart"] },
+  { name: "React Native", aliases: ["rn"], parents: ["Mobile Development", "React"] },
+
+  // Databases
+  { name: "SQL", parents: ["Databases"] },
+  { name: "MySQL", parents: ["SQL"] },
+  { name: "PostgreSQL", aliases: ["postgres", "psql"], parents: ["SQL"] },
+  { name: "SQL Server", aliases: ["mssql", "microsoft sql server"], parents: ["SQL"] },
+  { name: "Oracle", aliases: ["oracle db", "oracle database"], parents: ["SQL"] },
+  { name: "MongoDB", aliases: ["mongo"], parents: ["Databases"] },
+  { name: "Redis", parents: ["Databases"] },
+  { name: "Firebase", parents: ["Databases"] },
+
+  // Cloud & DevOps
+  { name: "AWS", aliases: ["amazon web services"], parents: ["Cloud"] },
+  { name: "Azure", aliases: ["microsoft azure"], parents: ["Cloud"] },
+  { name: "GCP", aliases: ["google cloud", "google cloud platform"], parents: ["Cloud"] },
+  { name: "Docker", parents: ["DevOps"] },
+  { name: "Kubernetes", aliases: ["k8s"], parents: ["DevOps"] },
+  { name: "Terraform", parents: ["DevOps"] },
+
+  // Data
+  { name: "Excel", aliases: ["ms excel", "microsoft excel"], parents: ["Data Analysis"] },
+  { name: "Tableau", parents: ["Data Analysis"] },
+  { name: "Power BI", parents: ["Data Analysis"] },
+  { name: "Data Visualization", aliases: ["data viz"], parents: ["Data Analysis"] },
+  { name: "Spark", aliases: ["apache spark", "pyspark"], parents: ["Data Engineering"] },
+  { name: "Hadoop", parents: ["Data Engineering"] },
+  { name: "Kafka", aliases: ["apache kafka"], parents: ["Data Engineering"] },
+  { name: "Data Warehousing", aliases: ["data warehouse"], parents: ["Data Engineering"] },
+  { name: "TensorFlow", parents: ["Machine Learning"] },
+  { name: "PyTorch", aliases: ["torch"], parents: ["Machine Learning"] },
+  { name: "NLP", aliases: ["natural language processing"], parents: ["Machine Learning"] },
+  { name: "Computer Vision", parents: ["Machine Learning"] },
+
+  // Testing
+  { name: "Selenium", parents: ["Testing"] },
+  { name: "Cypress", parents: ["Testing"] },
+  { name: "Appium", parents: ["Testing"] },
+  { name: "JMeter", parents: ["Testing"] },
+  { name: "LoadRunner", parents: ["Testing"] },
+  { name: "Gatling", parents: ["Testing"] },
+  { name: "Manual Testing", parents: ["Testing"] },
+  { name: "API Testing", parents: ["Testing"] },
+
+  // Security
+  { name: "Penetration Testing", aliases: ["pentesting"], parents: ["Security"] },
+  { name: "Vulnerability Assessment", parents: ["Security"] },
+  { name: "OWASP", parents: ["Security"] },
+  { name: "SIEM", parents: ["Security"] },
+  { name: "Incident Response", parents: ["Security"] },
+
+  // Fundamentals & design
+  { name: "Data Structures", aliases: ["dsa", "data structures and algorithms"] },
+  { name: "Algorithms" },
+  { name: "System Design" },
+  { name: "Distributed Systems" },
+  { name: "Git" },
+  { name: "Linux" },
+  { name: "UI/UX", aliases: ["ui ux", "ux", "ui design", "ux design"] },
+  { name: "Figma", parents: ["UI/UX"] },
+];
+
+/**
+ * Lookup key: case, spaces, dots, dashes and underscores are ignored,
+ * but "+", "#" and "/" are kept (C, C++ and C# stay distinct)
+ */
+function skillKey(value: string): string {
+  return value.toLowerCase().replace(/[\s._-]+/g, "");
+}
+
+const byKey = new Map<string, SkillDefinition>();
+for (const skill of SKILL_TAXONOMY) {
+  for (const spelling of [skill.name, ...(skill.aliases ?? [])]) {
+    byKey.set(skillKey(spelling), skill);
+  }
+}
+
+export function getSkillDefinition(skill: string): SkillDefinition | undefined {
+  return byKey.get(skillKey(skill));
+}
+
+/**
+ * Canonical name for any spelling; unknown skills are returned trimmed
+ */
+export function normalizeSkill(skill: string): string {
+  return getSkillDefinition(skill)?.name ?? skill.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Canonical names, de-duplicated, in first-seen order
+ */
+export function normalizeSkills(skills: string[]): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  for (const skill of skills) {
+    if (!skill.trim()) continue;
+    const name = normalizeSkill(skill);
+    const key = skillKey(name);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(name);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse a comma/semicolon/pipe separated list ("react, node js; SQL")
+ */
+export function parseSkillList(text: string): string[] {
+  return normalizeSkills(text.split(/[,;|]/));
+}
+
+/**
+ * Every parent, grandparent… of a skill (canonical names)
+ */
+export function getSkillAncestors(skill: string): string[] {
+  const result: string[] = [];
+  const pending = [...(getSkillDefinition(skill)?.parents ?? [])];
+  while (pending.length > 0) {
+    const parent = normalizeSkill(pending.shift() as string);
+    if (result.includes(parent) || parent === normalizeSkill(skill)) continue;
+    result.push(parent);
+    pending.push(...(getSkillDefinition(parent)?.parents ?? []));
+  }
+  return result;
+}
+
+/**
+ * Whether having `userSkill` satisfies a job asking for `jobSkill`
+ */
+export function skillCovers(userSkill: string, jobSkill: string): boolean {
+  const have = normalizeSkill(userSkill);
+  const need = normalizeSkill(jobSkill);
+  if (skillKey(have) === skillKey(need)) return true;
+  return getSkillAncestors(have).some((ancestor) => skillKey(ancestor) === skillKey(need));
+}
+
+/**
+ * Spellings a search should find a skill by: its name, aliases and ancestors
+ */
+export function getSkillSearchTerms(skill: string): string[] {
+  const definition = getSkillDefinition(skill);
+  if (!definition) return [skill];
+  return [definition.name, ...(definition.aliases ?? []), ...getSkillAncestors(definition.name)];
+}
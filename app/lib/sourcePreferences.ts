@@ -0,0 +1,102 @@
+import { Job } from "../data/jobs";
+import type { JobStatus } from "../components/jobs/JobCard";
+import { getSource } from "./sources";
+
+/**
+ * Source Preferences
+ *
+ * Users order the boards they trust (preferences.sourceRanking, best first).
+ * - Source bonus: the full source weight for your first board, then
+ *   proportionally less down the list ((n − position) / n); unlisted boards
+ *   get nothing
+ * - A merged listing counts its best-ranked board
+ * - Outcome stats: per board, how many tracked jobs you applied to and how
+ *   many ended Selected or Rejected, from job statuses
+ * - Suggested ranking: boards by selection rate (smoothed, so one lucky
+ *   application does not put a board first), then the rest in your order
+ */
+
+export interface SourcePreferenceMatch {
+  source: string;
+  // 0-based position in the ranking
+  position: number;
+  // 1 for the first board, down to 1/n for the last
+  credit: number;
+}
+
+/**
+ * The best-ranked board a job is posted on, if any is ranked
+ */
+export function matchSourcePreference(job: Job, ranking: string[]): SourcePreferenceMatch | undefined {
+  const boards = [job.source, ...(job.alternateListings ?? []).map((listing) => listing.source)];
+  const positions = boards.map((board) => ranking.indexOf(board)).filter((position) => position !== -1);
+  if (positions.length === 0) return undefined;
+
+  const position = Math.min(...positions);
+  return { source: ranking[position], position, credit: (ranking.length - position) / ranking.length };
+}
+
+export interface SourceOutcome {
+  source: string;
+  // Jobs with any status other than "Not Applied"
+  applied: number;
+  rejected: number;
+  selected: number;
+  // selected / applied, 0 without applications
+  selectionRate: number;
+}
+
+/**
+ * Applied → Selected outcomes per board, busiest first
+ */
+export function getSourceOutcomeStats(statuses: Record<string, JobStatus>, list: Job[]): SourceOutcome[] {
+  const byId = new Map(list.map((job) => [job.id, job]));
+  const stats = new Map<string, SourceOutcome>();
+
+  Object.entries(statuses).forEach(([jobId, status]) => {
+    const job = byId.get(jobId);
+    if (!job || status === "Not Applied") return;
+
+    const outcome = stats.get(job.source) ?? {
+      source: job.source,
+      applied: 0,
+      rejected: 0,
+      selected: 0,
+      selectionRate: 0,
+    };
+    outcome.applied += 1;
+    if (status === "Rejected") outcome.rejected += 1;
+    if (status === "Selected") outcome.selected += 1;
+    outcome.selectionRate = outcome.selected / outcome.applied;
+    stats.set(job.source, outcome);
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.applied - a.applied);
+}
+
+// Laplace smoothing: a board with 1/1 does not outrank one with 4/6
+function smoothedRate(outcome: SourceOutcome): number {
+  return (outcome.selected + 1) / (outcome.applied + 2);
+}
+
+/**
+ * Boards ordered by their smoothed selection rate, then every other board in
+ * the current order; empty until some board has an application
+ */
+export function suggestSourceRanking(outcomes: SourceOutcome[], current: string[], sources: string[]): string[] {
+  const withOutcomes = outcomes.filter((outcome) => outcome.applied > 0);
+  if (withOutcomes.length === 0) return [];
+
+  const ranked = [...withOutcomes]
+    .sort((a, b) => smoothedRate(b) - smoothedRate(a) || b.applied - a.applied)
+    .map((outcome) => outcome.source);
+  const rest = [...current, ...sources].filter((source, index, all) => all.indexOf(source) === index);
+  return [...ranked, ...rest.filter((source) => !ranked.includes(source))];
+}
+
+/**
+ * "Naukri: 2 of 5 selected"
+ */
+export function formatSourceOutcome(outcome: SourceOutcome): string {
+  return `${getSource(outcome.source).name}: ${outcome.selected} of ${outcome.applied} selected`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Job Source Registry
+ *
+ * Every board a listing can come from is registered here with:
+ * - id: stored in Job.source
+ * - name: shown on cards, filters and modals
+ * - badgeClassName: source badge colors
+ * - adapter: which ingest path this board's listings come through. It is a
+ *   tag, not code: "csv" boards go through the CSV import (app/lib/csvImport.ts),
+ *   "feed" boards through npm run ingest:feed (app/lib/feedIngest.ts), which
+ *   only accepts them and falls back to their feedUrl; "manual" is for unknown ids.
+ *   A board with a new format still needs its own ingest module.
+ *
+ * Adding a board means adding an entry here (or calling registerSource);
+ * the card, filter bar and Settings read everything from the registry.
+ * How much a board counts in the match score is up to each user (see
+ * app/lib/sourcePreferences.ts).
+ */
+
+export type IngestionAdapter =
+  | { type: "csv" }
+  | { type: "feed"; feedUrl?: string }
+  | { type: "manual" };
+
+export interface JobSource {
+  id: string;
+  name: string;
+  badgeClassName: string;
+  adapter: IngestionAdapter;
+}
+
+const builtInSources: JobSource[] = [
+  {
+    id: "LinkedIn",
+    name: "LinkedIn",
+    badgeClassName: "bg-[#0077B5] bg-opacity-10 text-[#0077B5]",
+    adapter: { type: "csv" },
+  },
+  {
+    id: "Naukri",
+    name: "Naukri",
+    badgeClassName: "bg-[#FF6B6B] bg-opacity-10 text-[#FF6B6B]",
+    adapter: { type: "csv" },
+  },
+  {
+    id: "Indeed",
+    name: "Indeed",
+    badgeClassName: "bg-[#2557A7] bg-opacity-10 text-[#2557A7]",
+    adapter: { type: "csv" },
+  },
+  {
+    id: "Internshala",
+    name: "Internshala",
+    badgeClassName: "bg-[#00A5EC] bg-opacity-10 text-[#008BC7]",
+    adapter: { type: "feed" },
+  },
+  {
+    id: "Wellfound",
+    name: "Wellfound",
+    badgeClassName: "bg-[#111111] bg-opacity-10 text-[#111111]",
+    adapter: { type: "feed" },
+  },
+  {
+    id: "Careers",
+    name: "Company Careers",
+    badgeClassName: "bg-[#5A7D5A] bg-opacity-15 text-[#4A6B4A]",
+    adapter: { type: "feed" },
+  },
+];
+
+const registry = new Map<string, JobSource>(builtInSources.map((source) => [source.id, source]));
+
+/**
+ * Register (or replace) a job source
+ */
+export function registerSource(source: JobSource): void {
+  registry.set(source.id, source);
+}
+
+export function listSources(): JobSource[] {
+  return Array.from(registry.values());
+}
+
+export function isKnownSource(id: string): boolean {
+  return registry.has(id);
+}
+
+/**
+ * Get a source by id
+ * Unknown ids get a neutral placeholder so old data still renders.
+ */
+export function getSource(id: string): JobSource {
+  return (
+    registry.get(id) ?? {
+      id,
+      name: id,
+      badgeClassName: "bg-[#E8E6E1] text-[#6B6B6B]",
+      adapter: { type: "manual" },
+    }
+  );
+}
+
+/**
+ * Resolve free text ("linkedin", "Company Careers") to a registered source id
+ */
+export function resolveSourceId(value: string): string | undefined {
+  const lower = value.trim().toLowerCase();
+  return listSources().find(
+    (source) => source.id.toLowerCase() === lower || source.name.toLowerCase() === lower
+  )?.id;
+}
@@ -0,0 +1,22 @@
+/**
+ * Text Helpers
+ *
+ * Small string utilities shared by the matching, exclusion and import modules.
+ */
+
+/**
+ * Items of a comma-separated preference field, trimmed, empty ones dropped
+ */
+export function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
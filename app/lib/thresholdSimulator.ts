@@ -0,0 +1,110 @@
+import { Job } from "../data/jobs";
+import { Preferences } from "./matchScore";
+import { rankJobs } from "./scorers";
+import { DAY_MS, getActiveJobs } from "./jobDates";
+import { EMPTY_MODEL, LearnedModel } from "./feedback";
+
+/**
+ * Threshold Simulator
+ *
+ * What a minimum match score lets through, for preferences not yet saved:
+ * - histogram of the active catalog's scores in 10-point bins (jobs hidden
+ *   by exclusion rules are left out, as on the dashboard)
+ * - jobs at or above the threshold, and how many of those arrive per day:
+ *   matches posted in the RATE_WINDOW_DAYS up to the newest posting, divided
+ *   by the window (anchored on the newest posting, not today, so a catalog
+ *   that has not been refreshed still gives a rate)
+ * - suggested threshold: the highest one that still brings in the target
+ *   number of matches a day
+ */
+
+export const BIN_SIZE = 10;
+export const DEFAULT_DAILY_TARGET = 3;
+export const MAX_DAILY_TARGET = 50;
+
+const RATE_WINDOW_DAYS = 7;
+
+export interface ScoredPosting {
+  score: number;
+  postedAt: string;
+}
+
+export interface ThresholdSimulation {
+  // Job counts per bin: 0–9, 10–19, … 90–100
+  bins: number[];
+  total: number;
+  passing: number;
+  dailyMatches: number;
+}
+
+export interface ThresholdSuggestion {
+  threshold: number;
+  dailyMatches: number;
+  // False when even a threshold of 0 brings in fewer than the target
+  meetsTarget: boolean;
+}
+
+/**
+ * Scores of the active, not hidden, jobs under some preferences
+ */
+export function getScoredPostings(
+  list: Job[],
+  preferences: Preferences,
+  model: LearnedModel = EMPTY_MODEL
+): ScoredPosting[] {
+  return rankJobs(getActiveJobs(list), list, preferences, model).map(({ job, match }) => ({
+    score: match.score,
+    postedAt: job.postedAt,
+  }));
+}
+
+/**
+ * The postings inside the rate window
+ */
+function getRecentPostings(postings: ScoredPosting[]): ScoredPosting[] {
+  const times = postings.map((posting) => Date.parse(posting.postedAt)).filter((time) => !Number.isNaN(time));
+  if (times.length === 0) return [];
+
+  const windowStart = Math.max(...times) - RATE_WINDOW_DAYS * DAY_MS;
+  return postings.filter((posting) => Date.parse(posting.postedAt) > windowStart);
+}
+
+function getDailyMatches(recent: ScoredPosting[], threshold: number): number {
+  return recent.filter((posting) => posting.score >= threshold).length / RATE_WINDOW_DAYS;
+}
+
+export function simulateThreshold(postings: ScoredPosting[], threshold: number): ThresholdSimulation {
+  const bins = Array.from({ length: 100 / BIN_SIZE }, () => 0);
+  postings.forEach((posting) => {
+    bins[Math.min(bins.length - 1, Math.floor(posting.score / BIN_SIZE))] += 1;
+  });
+
+  return {
+    bins,
+    total: postings.length,
+    passing: postings.filter((posting) => posting.score >= threshold).length,
+    dailyMatches: getDailyMatches(getRecentPostings(postings), threshold),
+  };
+}
+
+/**
+ * The highest threshold that yields at least dailyTarget matches a day
+ */
+export function suggestThreshold(postings: ScoredPosting[], dailyTarget: number): ThresholdSuggestion {
+  const recent = getRecentPostings(postings);
+  for (let threshold = 100; threshold > 0; threshold--) {
+    const dailyMatches = getDailyMatches(recent, threshold);
+    if (dailyMatches >= dailyTarget) return { threshold, dailyMatches, meetsTarget: true };
+  }
+  const dailyMatches = getDailyMatches(recent, 0);
+  return { threshold: 0, dailyMatches, meetsTarget: dailyMatches >= dailyTarget };
+}
+
+/**
+ * "about 2.4 a day", "fewer than one a day"
+ */
+export function formatDailyMatches(dailyMatches: number): string {
+  if (dailyMatches === 0) return "none a day";
+  if (dailyMatches < 1) return "fewer than one a day";
+  return `about ${Math.round(dailyMatches * 10) / 10} a day`;
+}
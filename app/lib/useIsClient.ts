@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * Is Client Hook
+ *
+ * False during SSR and hydration, true after. Gate anything read from
+ * localStorage on it so the first client render matches the server's.
+ */
+
+const subscribeNoop = () => () => {};
+
+export function useIsClient(): boolean {
+  return useSyncExternalStore(subscribeNoop, () => true, () => false);
+}
@@ -0,0 +1,280 @@
+import { Job, JobListing, JOB_MODES, JOB_EXPERIENCES } from "../data/jobs";
+import { isKnownSource, listSources } from "./sources";
+import { checkTimestamp } from "./jobDates";
+
+/**
+ * Validation
+ *
+ * Small runtime schema layer for anything read from localStorage or imported.
+ * - Every problem is reported with a precise path (e.g. "preferredMode[1]")
+ * - Fields with a fallback are repaired; invalid array items and record
+ *   entries are dropped; objects missing a required field are rejected
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T | undefined;
+  issues: ValidationIssue[];
+}
+
+export type Schema<T> = (input: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+interface FieldOptions<T> {
+  fallback?: T;
+  optional?: boolean;
+}
+
+function describe(input: unknown): string {
+  if (input === null) return "null";
+  if (typeof input === "string") return `"${input.length > 40 ? `${input.slice(0, 40)}…` : input}"`;
+  if (Array.isArray(input)) return "array";
+  return typeof input;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Shared handling for a value that failed its check:
+ * undefined is fine when optional and silently defaults when a fallback
+ * exists (fields added after the value was stored); anything else is
+ * reported and then repaired with the fallback or rejected
+ */
+function reject<T>(
+  input: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  message: string,
+  options: FieldOptions<T>
+): T | undefined {
+  if (input === undefined && options.optional) return undefined;
+  if (input === undefined && options.fallback !== undefined) return options.fallback;
+  const repaired = options.fallback !== undefined ? " (using default)" : "";
+  issues.push({ path: path || "(root)", message: `${message}${repaired}` });
+  return options.fallback;
+}
+
+function stringSchema(
+  options: FieldOptions<string> & {
+    minLength?: number;
+    pattern?: RegExp;
+    patternMessage?: string;
+    // Returns an error message when the value is not acceptable
+    check?: (value: string) => string | undefined;
+  } = {}
+): Schema<string> {
+  return (input, path, issues) => {
+    if (typeof input !== "string") {
+      return reject(input, path, issues, `expected string, got ${describe(input)}`, options);
+    }
+    if (options.minLength !== undefined && input.trim().length < options.minLength) {
+      return reject(input, path, issues, "must not be empty", options);
+    }
+    if (options.pattern && !options.pattern.test(input)) {
+      return reject(input, path, issues, options.patternMessage ?? `"${input}" has an invalid format`, options);
+    }
+    const problem = options.check?.(input);
+    if (problem) {
+      return reject(input, path, issues, problem, options);
+    }
+    return input;
+  };
+}
+
+function numberSchema(
+  options: FieldOptions<number> & { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return (input, path, issues) => {
+    if (typeof input !== "number" || Number.isNaN(input)) {
+      return reject(input, path, issues, `expected number, got ${describe(input)}`, options);
+    }
+    if (options.integer && !Number.isInteger(input)) {
+      return reject(input, path, issues, `expected whole number, got ${input}`, options);
+    }
+    if (options.min !== undefined && input < options.min) {
+      return reject(input, path, issues, `must be at least ${options.min}, got ${input}`, options);
+    }
+    if (options.max !== undefined && input > options.max) {
+      return reject(input, path, issues, `must be at most ${options.max}, got ${input}`, options);
+    }
+    return input;
+  };
+}
+
+function booleanSchema(options: FieldOptions<boolean> = {}): Schema<boolean> {
+  return (input, path, issues) => {
+    if (typeof input !== "boolean") {
+      return reject(input, path, issues, `expected boolean, got ${describe(input)}`, options);
+    }
+    return input;
+  };
+}
+
+function oneOfSchema<T extends string>(allowed: readonly T[], options: FieldOptions<T> = {}): Schema<T> {
+  return (input, path, issues) => {
+    if (typeof input !== "string" || !(allowed as readonly string[]).includes(input)) {
+      return reject(input, path, issues, `expected one of ${allowed.join(", ")}, got ${describe(input)}`, options);
+    }
+    return input as T;
+  };
+}
+
+/**
+ * Array schema: invalid items are dropped, the rest are kept
+ */
+function arraySchema<T>(item: Schema<T>, options: FieldOptions<T[]> = {}): Schema<T[]> {
+  return (input, path, issues) => {
+    if (!Array.isArray(input)) {
+      return reject(input, path, issues, `expected array, got ${describe(input)}`, options);
+    }
+    const result: T[] = [];
+    input.forEach((entry, index) => {
+      const value = item(entry, joinPath(path, index), issues);
+      if (value !== undefined) result.push(value);
+    });
+    return result;
+  };
+}
+
+/**
+ * Record schema (string keys): invalid entries are dropped
+ */
+function recordSchema<T>(value: Schema<T>, options: FieldOptions<Record<string, T>> = {}): Schema<Record<string, T>> {
+  return (input, path, issues) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return reject(input, path, issues, `expected object, got ${describe(input)}`, options);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(input)) {
+      const parsed = value(entry, joinPath(path, key), issues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result;
+  };
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Object schema: unknown keys are stripped; a required field that cannot be
+ * repaired rejects the whole object
+ */
+function objectSchema<T extends object>(shape: Shape<T>, options: FieldOptions<T> = {}): Schema<T> {
+  return (input, path, issues) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return reject(input, path, issues, `expected object, got ${describe(input)}`, options);
+    }
+    const source = input as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    let valid = true;
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldIssues: ValidationIssue[] = [];
+      const value = shape[key](source[key], joinPath(path, key), fieldIssues);
+      issues.push(...fieldIssues);
+      if (value !== undefined) {
+        result[key] = value;
+      } else if (fieldIssues.length > 0) {
+        valid = false;
+      }
+    }
+
+    return valid ? (result as T) : options.fallback;
+  };
+}
+
+export const v = {
+  string: stringSchema,
+  number: numberSchema,
+  boolean: booleanSchema,
+  oneOf: oneOfSchema,
+  array: arraySchema,
+  record: recordSchema,
+  object: objectSchema,
+};
+
+/**
+ * Run a schema against unknown input
+ */
+export function validate<T>(schema: Schema<T>, input: unknown, path: string = ""): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const value = schema(input, path, issues);
+  return { value, issues };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+}
+
+/**
+ * Read and validate a JSON value from localStorage
+ * Returns the fallback if missing, unparseable or invalid; logs any repairs.
+ */
+export function readStorage<T>(key: string, schema: Schema<T>, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch {
+    console.warn(`[${key}] stored value is not valid JSON, ignoring it`);
+    return fallback;
+  }
+
+  const { value, issues } = validate(schema, parsed, key);
+  if (issues.length > 0) {
+    console.warn(`[${key}] repaired stored value:\n${formatIssues(issues)}`);
+  }
+  return value ?? fallback;
+}
+
+const sourceIdSchema = v.string({
+  check: (id) =>
+    isKnownSource(id)
+      ? undefined
+      : `expected a registered source (${listSources().map((s) => s.id).join(", ")}), got "${id}"`,
+});
+
+const applyUrlSchema = v.string({
+  pattern: /^https?:\/\/\S+$/i,
+  patternMessage: "expected an http(s) URL",
+});
+
+/**
+ * Job schema, shared by localStorage payloads and import paths
+ */
+export const jobShape: Shape<Job> = {
+  id: v.string({ minLength: 1 }),
+  title: v.string({ minLength: 1 }),
+  company: v.string({ minLength: 1 }),
+  location: v.string({ minLength: 1 }),
+  mode: v.oneOf(JOB_MODES),
+  experience: v.oneOf(JOB_EXPERIENCES),
+  skills: v.array(v.string({ minLength: 1 }), { fallback: [] }),
+  niceToHaveSkills: v.array(v.string({ minLength: 1 }), { optional: true }),
+  source: sourceIdSchema,
+  postedAt: v.string({ check: checkTimestamp }),
+  expiresAt: v.string({ check: checkTimestamp, optional: true }),
+  salaryRange: v.string({ fallback: "Not disclosed" }),
+  applyUrl: applyUrlSchema,
+  description: v.string({ fallback: "" }),
+  alternateListings: v.array(
+    v.object<JobListing>({
+      id: v.string({ minLength: 1 }),
+      source: sourceIdSchema,
+      applyUrl: applyUrlSchema,
+    }),
+    { optional: true }
+  ),
+};
+
+export const jobSchema = v.object(jobShape);
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Job, getListingIds } from "../data/jobs";
+import { JobCard, JobModal, JobStatus } from "../components/jobs";
+import { EmptyState } from "../components/design-system";
+import { loadJobStatuses, saveJobStatus } from "../lib/jobStatus";
+import { isJobSaved, loadSavedJobIds, storeSavedJobIds, toggleSavedJob } from "../lib/savedJobs";
+import { LearnedModel, EMPTY_MODEL, Vote, loadLearnedModel, setJobVote, recordJobSignal } from "../lib/feedback";
+
+/**
+ * Saved View
+ * 
+ * Displays saved jobs from localStorage, looked up in the catalog the
+ * server page (app/saved/page.tsx) reads from disk.
+ * Jobs persist after page reload.
+ * Job statuses are tracked and persisted.
+ * Expired listings stay here, marked "Expired" on their card.
+ * Votes, unsaves and applications here feed the learned match score too.
+ */
+
+interface SavedViewProps {
+  catalog: Job[];
+}
+
+interface Toast {
+  id: string;
+  message: string;
+}
+
+export function SavedView({ catalog }: SavedViewProps) {
+  const [savedJobIds, setSavedJobIds] = useState<string[]>([]);
+  const [selectedJob, setSelectedJob] = useState<Job | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [jobStatuses, setJobStatuses] = useState<Record<string, JobStatus>>({});
+  const [learnedModel, setLearnedModel] = useState<LearnedModel>(EMPTY_MODEL);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  // Load saved jobs and job statuses from localStorage on mount
+  useEffect(() => {
+    setSavedJobIds(loadSavedJobIds());
+    setJobStatuses(loadJobStatuses());
+    setLearnedModel(loadLearnedModel());
+  }, []);
+
+  // Save to localStorage when savedJobIds changes
+  useEffect(() => {
+    storeSavedJobIds(savedJobIds);
+  }, [savedJobIds]);
+
+  const showToast = (message: string) => {
+    const id = Date.now().toString();
+    setToasts((prev) => [...prev, { id, message }]);
+    setTimeout(() => {
+      setToasts((prev) => prev.filter((t) => t.id !== id));
+    }, 3000);
+  };
+
+  // Match merged listings too, in case a job was saved before its duplicate was merged
+  const savedJobs = catalog.filter((job) => isJobSaved(job, savedJobIds));
+
+  const handleSaveJob = (jobId: string) => {
+    const job = catalog.find((j) => getListingIds(j).includes(jobId));
+    if (!job) return;
+    setLearnedModel(recordJobSignal(job, "save", isJobSaved(job, savedJobIds)));
+    setSavedJobIds((prev) => toggleSavedJob(job, prev));
+  };
+
+  const handleViewJob = (job: Job) => {
+    setSelectedJob(job);
+    setIsModalOpen(true);
+  };
+
+  const handleApply = (url: string) => {
+    const job = catalog.find((j) => j.applyUrl === url);
+    if (job) {
+      setLearnedModel(recordJobSignal(job, "apply"));
+    }
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
+
+  const handleStatusChange = (jobId: string, newStatus: JobStatus) => {
+    const job = catalog.find((j) => j.id === jobId);
+    if (job) {
+      saveJobStatus(jobId, newStatus, job.title, job.company);
+      setJobStatuses(loadJobStatuses());
+      if (newStatus === "Applied") {
+        setLearnedModel(recordJobSignal(job, "apply"));
+      }
+      showToast(`Status updated: ${newStatus}`);
+    }
+  };
+
+  const handleVote = (jobId: string, vote: Vote | null) => {
+    const job = catalog.find((j) => j.id === jobId);
+    if (job) {
+      setLearnedModel(setJobVote(job, vote));
+    }
+  };
+
+  return (
+    <div className="max-w-[1200px] mx-auto px-24 py-40">
+      <div className="mb-40">
+        <h1 className="font-serif text-[2.5rem] leading-[1.2] text-[#111111] mb-16">
+          Saved Jobs
+        </h1>
+        <p className="text-base text-[#6B6B6B] leading-relaxed max-w-[720px]">
+          Jobs you have saved for quick access. These persist even after you close the browser.
+        </p>
+      </div>
+
+      {savedJobs.length === 0 ? (
+        <EmptyState
+          title="No saved jobs yet"
+          description="Jobs you save will appear here for quick access. Browse the dashboard to find and save jobs."
+        />
+      ) : (
+        <>
+          <div className="mb-24">
+            <span className="text-sm text-[#6B6B6B]">
+              {savedJobs.length} saved job{savedJobs.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-24">
+            {savedJobs.map((job) => (
+              <JobCard
+                key={job.id}
+                job={job}
+                isSaved={isJobSaved(job, savedJobIds)}
+                onView={handleViewJob}
+                onSave={handleSaveJob}
+                onApply={handleApply}
+                status={jobStatuses[job.id] || "Not Applied"}
+                onStatusChange={handleStatusChange}
+                vote={learnedModel.votes[job.id]}
+                onVote={handleVote}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <JobModal
+        job={selectedJob}
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSave={handleSaveJob}
+        onApply={handleApply}
+        isSaved={selectedJob ? isJobSaved(selectedJob, savedJobIds) : false}
+        vote={selectedJob ? learnedModel.votes[selectedJob.id] : undefined}
+        onVote={handleVote}
+        onSelectJob={setSelectedJob}
+      />
+
+      {/* Toast Notifications */}
+      <div className="fixed bottom-24 right-24 z-50 flex flex-col gap-12">
+        {toasts.map((toast) => (
+          <div
+            key={toast.id}
+            className="bg-[#111111] text-white px-20 py-14 rounded-[6px] shadow-lg text-sm font-medium animate-in slide-in-from-bottom-2"
+          >
+            {toast.message}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,587 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Input, Button } from "../components/design-system";
+import { Job, getUniqueLocations, getUniqueSources } from "../data/jobs";
+import { DEFAULT_PREFERENCES, loadPreferences, savePreferences, Preferences, MatchWeights } from "../lib/matchScore";
+import {
+  MatchWeightsEditor,
+  RankingPreview,
+  ExclusionRulesEditor,
+  SourcePreferenceEditor,
+  ResumeImport,
+  ThresholdSimulator,
+} from "../components/settings";
+import { parseSkillList, getSkillAncestors } from "../lib/skills";
+import { EXPERIENCE_LEVELS } from "../lib/experience";
+import { getLocationOptions } from "../lib/locations";
+import { listScorers } from "../lib/scorers";
+import { MIN_HALF_LIFE_DAYS, MAX_HALF_LIFE_DAYS } from "../lib/recency";
+import { loadJobStatuses } from "../lib/jobStatus";
+import { SourceOutcome, getSourceOutcomeStats } from "../lib/sourcePreferences";
+import { SalaryFloor, LAKH, formatSalaryFloor, getAnnualFloor } from "../lib/salary";
+import { ResumeField, ResumeProfile, applyResumeChanges } from "../lib/resumeImport";
+import {
+  LearnedModel,
+  EMPTY_MODEL,
+  MAX_ADJUSTMENT,
+  loadLearnedModel,
+  resetLearning,
+  countSignals,
+  getTopLearnedFeatures,
+} from "../lib/feedback";
+
+/**
+ * Settings View
+ * 
+ * Location and board choices, the previews and the resume import work on
+ * the catalog the server page (app/settings/page.tsx) reads from disk.
+ * 
+ * Resume import: fills role keywords, skills and experience from a resume
+ * after a reviewable diff, and saves only the accepted changes (other edits
+ * in the form stay unsaved).
+ * Preference fields with localStorage persistence:
+ * - roleKeywords (comma-separated)
+ * - preferredLocations (multi-select of regions and cities)
+ * - preferredMode (checkboxes)
+ * - experienceLevel (dropdown)
+ * - skills (comma-separated), shown as the canonical skills they match
+ * - salaryFloor (annual LPA, or a monthly stipend for internships)
+ * - minMatchScore (slider 0-100, default 40), with a what-if histogram of
+ *   catalog scores and a suggested threshold for a daily number of matches
+ * - recencyHalfLifeDays (how fast postings go stale, default 7)
+ * - exclusions (deal-breakers that hide a job or cost it points)
+ * - sourceRanking (boards in order of preference), with Applied → Selected
+ *   outcomes per board and a suggested order
+ * - scorerId (which registered scorer ranks jobs; /compare shows two side by side)
+ * - weights (one slider per scoring rule) with a live re-rank preview
+ *   against the saved preferences
+ * Below them, what the score has learned from feedback, with a reset that
+ * applies immediately.
+ */
+
+const modeOptions = ["Remote", "Hybrid", "Onsite"];
+
+interface SettingsViewProps {
+  catalog: Job[];
+}
+
+export function SettingsView({ catalog }: SettingsViewProps) {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [savedPreferences, setSavedPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [isSaved, setIsSaved] = useState(false);
+  const [learnedModel, setLearnedModel] = useState<LearnedModel>(EMPTY_MODEL);
+  const [sourceOutcomes, setSourceOutcomes] = useState<SourceOutcome[]>([]);
+  const locationOptions = getLocationOptions(getUniqueLocations(catalog));
+  const locations = [...locationOptions.regions, ...locationOptions.cities];
+
+  // Load preferences from localStorage on mount
+  useEffect(() => {
+    const stored = loadPreferences() ?? DEFAULT_PREFERENCES;
+    setPreferences(stored);
+    setSavedPreferences(stored);
+    setLearnedModel(loadLearnedModel());
+    setSourceOutcomes(getSourceOutcomeStats(loadJobStatuses(), catalog));
+  }, [catalog]);
+
+  const recognizedSkills = parseSkillList(preferences.skills);
+  const signalCount = countSignals(learnedModel);
+  const learnedFeatures = getTopLearnedFeatures(learnedModel);
+  const hasWeightChanges = (Object.keys(preferences.weights) as (keyof MatchWeights)[]).some(
+    (key) => preferences.weights[key] !== savedPreferences.weights[key]
+  );
+
+  const handleSave = () => {
+    savePreferences(preferences);
+    setSavedPreferences(preferences);
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  // Only the chosen resume fields are saved; other edits in the form stay unsaved
+  const handleResumeApply = (profile: ResumeProfile, fields: ResumeField[]) => {
+    const next = applyResumeChanges(savedPreferences, profile, fields);
+    savePreferences(next);
+    setSavedPreferences(next);
+    setPreferences((draft) => applyResumeChanges(draft, profile, fields));
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleResetLearning = () => {
+    resetLearning();
+    setLearnedModel(EMPTY_MODEL);
+  };
+
+  const updatePreference = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+    setIsSaved(false);
+  };
+
+  // LPA for annual salaries, rupees for monthly stipends
+  const salaryFloorInput =
+    preferences.salaryFloor.period === "year"
+      ? preferences.salaryFloor.amount / LAKH
+      : preferences.salaryFloor.amount;
+
+  const changeSalaryFloorAmount = (value: number) => {
+    const amount = preferences.salaryFloor.period === "year" ? Math.round(value * LAKH) : Math.round(value);
+    updatePreference("salaryFloor", { ...preferences.salaryFloor, amount: Math.max(0, amount) });
+  };
+
+  // Keep the same annual value when switching between salary and stipend
+  const changeSalaryFloorPeriod = (period: SalaryFloor["period"]) => {
+    const annual = getAnnualFloor(preferences.salaryFloor);
+    const amount = period === "month" ? Math.round(annual / 12 / 1000) * 1000 : annual;
+    updatePreference("salaryFloor", { amount, period });
+  };
+
+  const toggleLocation = (location: string) => {
+    setPreferences((prev) => {
+      const current = prev.preferredLocations;
+      const updated = current.includes(location)
+        ? current.filter((l) => l !== location)
+        : [...current, location];
+      return { ...prev, preferredLocations: updated };
+    });
+    setIsSaved(false);
+  };
+
+  const toggleMode = (mode: string) => {
+    setPreferences((prev) => {
+      const current = prev.preferredMode;
+      const updated = current.includes(mode)
+        ? current.filter((m) => m !== mode)
+        : [...current, mode];
+      return { ...prev, preferredMode: updated };
+    });
+    setIsSaved(false);
+  };
+
+  return (
+    <div className="max-w-[1200px] mx-auto px-24 py-40">
+      <div className="max-w-[720px]">
+        <h1 className="font-serif text-[2.5rem] leading-[1.2] text-[#111111] mb-16">
+          Settings
+        </h1>
+        <p className="text-base text-[#6B6B6B] leading-relaxed mb-40">
+          Configure your job preferences. These settings will be used to match you with relevant opportunities.
+        </p>
+
+        <div className="space-y-24">
+          <Card>
+            <CardHeader>
+              <CardTitle>Import from Resume</CardTitle>
+              <CardDescription>
+                Fill in role keywords, skills and experience from your resume (.txt, .md or a PDF with selectable text). Review the changes before they are saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResumeImport catalog={catalog} preferences={savedPreferences} onApply={handleResumeApply} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Role Keywords</CardTitle>
+              <CardDescription>
+                Enter keywords for roles you are looking for (comma-separated).
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Input
+                label="Role Keywords"
+                placeholder="e.g. SDE, Backend, React, Python"
+                value={preferences.roleKeywords}
+                onChange={(e) => updatePreference("roleKeywords", e.target.value)}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferred Locations</CardTitle>
+              <CardDescription>
+                Select cities or whole regions. Remote roles count as a match wherever you are.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {(["regions", "cities"] as const).map((group) => (
+                <div key={group} className="mb-16 last:mb-0">
+                  <p className="text-xs text-[#6B6B6B] uppercase tracking-wide mb-8">
+                    {group === "regions" ? "Regions" : "Cities"}
+                  </p>
+                  <div className="flex flex-wrap gap-12">
+                    {locationOptions[group].map((location) => (
+                      <label
+                        key={location}
+                        className={`flex items-center gap-8 px-12 py-8 border rounded-[6px] cursor-pointer transition-colors duration-150 ${
+                          preferences.preferredLocations.includes(location)
+                            ? "bg-[#8B0000] bg-opacity-10 border-[#8B0000] text-[#8B0000]"
+                            : "border-[#D4D2CC] hover:bg-[#F7F6F3]"
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={preferences.preferredLocations.includes(location)}
+                          onChange={() => toggleLocation(location)}
+                          className="sr-only"
+                        />
+                        <span className="text-sm">{location}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferred Work Mode</CardTitle>
+              <CardDescription>
+                Select your preferred work arrangements (multiple allowed).
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-16">
+                {modeOptions.map((mode) => (
+                  <label
+                    key={mode}
+                    className={`flex items-center gap-12 px-16 py-12 border rounded-[6px] cursor-pointer transition-colors duration-150 ${
+                      preferences.preferredMode.includes(mode)
+                        ? "bg-[#8B0000] bg-opacity-10 border-[#8B0000] text-[#8B0000]"
+                        : "border-[#D4D2CC] hover:bg-[#F7F6F3]"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={preferences.preferredMode.includes(mode)}
+                      onChange={() => toggleMode(mode)}
+                      className="sr-only"
+                    />
+                    <span className="text-sm text-[#111111]">{mode}</span>
+                  </label>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Experience Level</CardTitle>
+              <CardDescription>
+                Select your target experience level. Roles one level above or below still earn partial credit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <select
+                value={preferences.experienceLevel}
+                onChange={(e) => updatePreference("experienceLevel", e.target.value)}
+                className="w-full px-16 py-12 bg-white border border-[#D4D2CC] rounded-[6px] text-sm text-[#111111] focus:outline-none focus:border-[#8B0000] focus:ring-2 focus:ring-[#8B0000] focus:ring-opacity-20"
+              >
+                <option value="">Select experience level</option>
+                {EXPERIENCE_LEVELS.map((level) => (
+                  <option key={level.id} value={level.id}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Skills</CardTitle>
+              <CardDescription>
+                Enter your skills (comma-separated) for better matching.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Input
+                label="Skills"
+                placeholder="e.g. React, Node.js, Python, SQL"
+                value={preferences.skills}
+                onChange={(e) => updatePreference("skills", e.target.value)}
+              />
+              {recognizedSkills.length > 0 && (
+                <div className="mt-12">
+                  <p className="text-xs text-[#6B6B6B] mb-8">Matched as</p>
+                  <div className="flex flex-wrap gap-8">
+                    {recognizedSkills.map((skill) => {
+                      const parents = getSkillAncestors(skill);
+                      return (
+                        <span
+                          key={skill}
+                          title={parents.length > 0 ? `Also counts as ${parents.join(", ")}` : undefined}
+                          className="px-8 py-4 text-xs bg-[#F7F6F3] text-[#111111] border border-[#D4D2CC] rounded-[6px]"
+                        >
+                          {skill}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Minimum Salary</CardTitle>
+              <CardDescription>
+                The least you would accept. Jobs that reach it score higher and can be filtered on the dashboard.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-16">
+                <div>
+                  <label htmlFor="salary-floor-period" className="block text-sm font-medium text-[#111111] mb-8">
+                    Pay type
+                  </label>
+                  <select
+                    id="salary-floor-period"
+                    value={preferences.salaryFloor.period}
+                    onChange={(e) => changeSalaryFloorPeriod(e.target.value as SalaryFloor["period"])}
+                    className="w-full px-16 py-12 bg-white border border-[#D4D2CC] rounded-[6px] text-sm text-[#111111] focus:outline-none focus:border-[#8B0000] focus:ring-2 focus:ring-[#8B0000] focus:ring-opacity-20"
+                  >
+                    <option value="year">Annual salary (LPA)</option>
+                    <option value="month">Monthly stipend (₹)</option>
+                  </select>
+                </div>
+                <Input
+                  label={preferences.salaryFloor.period === "year" ? "Minimum (LPA)" : "Minimum (₹ per month)"}
+                  type="number"
+                  min="0"
+                  step={preferences.salaryFloor.period === "year" ? "0.5" : "1000"}
+                  placeholder={preferences.salaryFloor.period === "year" ? "e.g. 6" : "e.g. 20000"}
+                  value={salaryFloorInput || ""}
+                  onChange={(e) => changeSalaryFloorAmount(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <p className="mt-12 text-xs text-[#6B6B6B]">
+                {preferences.salaryFloor.amount > 0
+                  ? `Floor: ${formatSalaryFloor(preferences.salaryFloor)}. Undisclosed salaries get half credit.`
+                  : "No floor set: salary does not affect your match score."}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Minimum Match Score</CardTitle>
+              <CardDescription>
+                Set the minimum match score for job recommendations (0-100). The chart shows how your current, unsaved preferences score the catalog.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-16">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-[#6B6B6B]">Threshold</span>
+                  <span className="text-lg font-medium text-[#8B0000]">{preferences.minMatchScore}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={preferences.minMatchScore}
+                  onChange={(e) => updatePreference("minMatchScore", parseInt(e.target.value))}
+                  className="w-full h-8 bg-[#E8E6E1] rounded-full appearance-none cursor-pointer accent-[#8B0000]"
+                />
+                <div className="flex justify-between text-xs text-[#6B6B6B]">
+                  <span>0</span>
+                  <span>25</span>
+                  <span>50</span>
+                  <span>75</span>
+                  <span>100</span>
+                </div>
+                <ThresholdSimulator
+                  catalog={catalog}
+                  preferences={preferences}
+                  learnedModel={learnedModel}
+                  onChange={(threshold) => updatePreference("minMatchScore", threshold)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Freshness</CardTitle>
+              <CardDescription>
+                How fast a posting goes stale. Its recency bonus halves every half-life, and the Latest sort and
+                digest favor fresh matches the same way.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-16">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-[#6B6B6B]">Half-life</span>
+                  <span className="text-lg font-medium text-[#8B0000]">
+                    {preferences.recencyHalfLifeDays} {preferences.recencyHalfLifeDays === 1 ? "day" : "days"}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_HALF_LIFE_DAYS}
+                  max={MAX_HALF_LIFE_DAYS}
+                  value={preferences.recencyHalfLifeDays}
+                  onChange={(e) => updatePreference("recencyHalfLifeDays", parseInt(e.target.value))}
+                  aria-label="Recency half-life in days"
+                  className="w-full h-8 bg-[#E8E6E1] rounded-full appearance-none cursor-pointer accent-[#8B0000]"
+                />
+                <p className="text-xs text-[#6B6B6B]">
+                  A {preferences.recencyHalfLifeDays * 2}-day-old posting keeps a quarter of the recency bonus.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Exclusions</CardTitle>
+              <CardDescription>
+                Deal-breakers. Jobs that break any of these are hidden or lose points, your choice.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExclusionRulesEditor
+                rules={preferences.exclusions}
+                onChange={(exclusions) => updatePreference("exclusions", exclusions)}
+                locations={locations}
+                sources={getUniqueSources(catalog)}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferred Sources</CardTitle>
+              <CardDescription>
+                Order the boards you trust. Your first board earns the full source bonus, later ones proportionally less.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SourcePreferenceEditor
+                ranking={preferences.sourceRanking}
+                onChange={(sourceRanking) => updatePreference("sourceRanking", sourceRanking)}
+                sources={getUniqueSources(catalog)}
+                outcomes={sourceOutcomes}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Scorer</CardTitle>
+              <CardDescription>
+                How jobs are scored.{" "}
+                <Link href="/compare" className="text-[#8B0000] hover:underline">
+                  Compare scorers side by side
+                </Link>{" "}
+                before switching.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-12">
+                {listScorers().map((scorer) => (
+                  <label key={scorer.id} className="flex items-start gap-8 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="scorer"
+                      checked={preferences.scorerId === scorer.id}
+                      onChange={() => updatePreference("scorerId", scorer.id)}
+                      className="mt-4 accent-[#8B0000]"
+                    />
+                    <span>
+                      <span className="block text-sm text-[#111111]">{scorer.name}</span>
+                      <span className="block text-xs text-[#6B6B6B]">{scorer.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Match Score Weights</CardTitle>
+              <CardDescription>
+                Decide how much each rule of the Rules scorer counts. Weights are relative: a job&apos;s score is the share of the total it earns.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MatchWeightsEditor
+                weights={preferences.weights}
+                onChange={(weights) => updatePreference("weights", weights)}
+              />
+
+              <div className="mt-24 pt-24 border-t border-[#E8E6E1]">
+                <h4 className="text-sm font-medium text-[#111111] mb-8">Preview</h4>
+                {hasWeightChanges ? (
+                  <>
+                    <p className="text-xs text-[#6B6B6B] mb-8">
+                      Your top jobs with these weights, compared with your saved settings.
+                    </p>
+                    <RankingPreview
+                      catalog={catalog}
+                      saved={savedPreferences}
+                      draft={preferences}
+                      learnedModel={learnedModel}
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm text-[#6B6B6B]">
+                    Move a slider to see how your top jobs re-rank before saving.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="pt-16">
+            <Button variant="primary" onClick={handleSave}>
+              {isSaved ? "Saved!" : "Save Preferences"}
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Learning</CardTitle>
+              <CardDescription>
+                Likes, dislikes, saves and applications nudge match scores by up to {MAX_ADJUSTMENT} points. Stored only in this browser.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {signalCount === 0 ? (
+                <p className="text-sm text-[#6B6B6B]">
+                  Nothing learned yet. Use 👍 / 👎 on jobs, or save and apply, to teach your match scores.
+                </p>
+              ) : (
+                <div className="space-y-16">
+                  <p className="text-sm text-[#111111]">
+                    Learned from {signalCount} {signalCount === 1 ? "signal" : "signals"}.
+                  </p>
+                  {learnedFeatures.liked.length > 0 && (
+                    <p className="text-sm text-[#6B6B6B]">
+                      <span className="text-[#5A7D5A] font-medium">More of:</span> {learnedFeatures.liked.join(", ")}
+                    </p>
+                  )}
+                  {learnedFeatures.disliked.length > 0 && (
+                    <p className="text-sm text-[#6B6B6B]">
+                      <span className="text-[#DC2626] font-medium">Less of:</span> {learnedFeatures.disliked.join(", ")}
+                    </p>
+                  )}
+                  <Button variant="secondary" size="small" onClick={handleResetLearning}>
+                    Reset learning
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
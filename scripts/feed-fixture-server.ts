@@ -0,0 +1,49 @@
+/**
+ * Feed Fixture Server
+ *
+ * Usage: npm run feeds:serve [-- --port=4010]
+ *
+ * Serves the XML files in scripts/fixtures so the feed adapter can be
+ * exercised end to end without network access:
+ *   npm run ingest:feed -- http://localhost:4010/sample-feed.rss.xml --dry-run
+ */
+
+import { createServer } from "http";
+import { promises as fs } from "fs";
+import path from "path";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const port = parseInt(process.argv.find((arg) => arg.startsWith("--port="))?.split("=")[1] ?? "4010");
+
+const server = createServer(async (request, response) => {
+  let name: string;
+  try {
+    name = path.basename(decodeURIComponent(new URL(request.url ?? "/", "http://localhost").pathname));
+  } catch {
+    // A malformed escape like "/%E0%A4" must not take the server down
+    response.writeHead(400, { "Content-Type": "text/plain" });
+    response.end("Malformed URL\n");
+    return;
+  }
+
+  if (!name.endsWith(".xml")) {
+    const files = (await fs.readdir(FIXTURES_DIR)).filter((file) => file.endsWith(".xml"));
+    response.writeHead(200, { "Content-Type": "text/plain" });
+    response.end(files.map((file) => `http://localhost:${port}/${file}`).join("\n") + "\n");
+    return;
+  }
+
+  try {
+    const xml = await fs.readFile(path.join(FIXTURES_DIR, name), "utf8");
+    const type = name.includes(".atom.") ? "application/atom+xml" : "application/rss+xml";
+    response.writeHead(200, { "Content-Type": `${type}; charset=utf-8` });
+    response.end(xml);
+  } catch {
+    response.writeHead(404, { "Content-Type": "text/plain" });
+    response.end(`No fixture named ${name}\n`);
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Serving feed fixtures on http://localhost:${port}/`);
+});
@@ -0,0 +1,46 @@
+/**
+ * CSV Import Script
+ *
+ * Usage: npm run import:csv -- <file.csv> [--dry-run]
+ *
+ * Validates every row, prints the per-row error report and merges
+ * valid rows into app/data/importedJobs.json.
+ */
+
+import { promises as fs } from "fs";
+import { importJobsFromCsv } from "../app/lib/csvImport";
+import { mergeIntoCatalog } from "../app/lib/catalogStore";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const file = args.find((arg) => !arg.startsWith("--"));
+
+  if (!file) {
+    console.error("Usage: npm run import:csv -- <file.csv> [--dry-run]");
+    process.exit(1);
+  }
+
+  const report = importJobsFromCsv(await fs.readFile(file, "utf8"));
+
+  console.log(`${report.rowCount} rows, ${report.jobs.length} valid, ${report.errors.length} errors`);
+  for (const error of report.errors) {
+    console.log(`  row ${error.row}${error.field ? ` [${error.field}]` : ""}: ${error.message}`);
+  }
+
+  // Invalid rows fail the run, dry run included
+  if (report.errors.length > 0) process.exitCode = 1;
+
+  if (dryRun || report.jobs.length === 0) return;
+
+  const merge = await mergeIntoCatalog(report.jobs);
+  console.log(`Catalog: ${merge.added} added, ${merge.updated} updated`);
+  for (const skipped of merge.skipped) {
+    console.log(`  skipped ${skipped.id}: ${skipped.reason}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+/**
+ * Feed Ingestion Script
+ *
+ * Usage: npm run ingest:feed -- [file.xml | url] --source=<id> [--dry-run]
+ *
+ * Parses an RSS/Atom feed, prints the per-entry report and merges
+ * valid entries into app/data/importedJobs.json.
+ * The source must use the feed adapter (app/lib/sources.ts); its feedUrl
+ * is used when no file or URL is given.
+ */
+
+import { promises as fs } from "fs";
+import { ingestFeed } from "../app/lib/feedIngest";
+import { listSources, resolveSourceId, getSource } from "../app/lib/sources";
+import { loadCatalog, mergeIntoCatalog } from "../app/lib/catalogStore";
+
+async function readFeed(location: string): Promise<string> {
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location);
+    if (!response.ok) {
+      throw new Error(`GET ${location} failed with ${response.status}`);
+    }
+    return response.text();
+  }
+  return fs.readFile(location, "utf8");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const sourceArg = args.find((arg) => arg.startsWith("--source="))?.split("=")[1] ?? "";
+  const sourceId = resolveSourceId(sourceArg);
+  const feedSources = listSources().filter((source) => source.adapter.type === "feed");
+
+  if (!sourceId || getSource(sourceId).adapter.type !== "feed") {
+    console.error(`--source must be a feed source: ${feedSources.map((source) => source.id).join(", ")}`);
+    process.exit(1);
+  }
+
+  const adapter = getSource(sourceId).adapter;
+  const location = args.find((arg) => !arg.startsWith("--")) ?? (adapter.type === "feed" ? adapter.feedUrl : undefined);
+
+  if (!location) {
+    console.error("Usage: npm run ingest:feed -- [file.xml | url] --source=<id> [--dry-run]");
+    process.exit(1);
+  }
+
+  const report = ingestFeed(await readFeed(location), { source: sourceId, catalog: await loadCatalog() });
+
+  console.log(`${report.format} feed: ${report.entryCount} entries, ${report.jobs.length} valid, ${report.errors.length} errors`);
+  for (const job of report.jobs) {
+    console.log(`  + ${job.title} @ ${job.company} (${job.location}, ${job.mode}, ${job.experience}) [${job.skills.join(", ")}]`);
+  }
+  for (const error of report.errors) {
+    console.log(`  entry ${error.entry}${error.title ? ` "${error.title}"` : ""}: ${error.message}`);
+  }
+
+  // Invalid entries fail the run, even a dry run
+  if (report.errors.length > 0) process.exitCode = 1;
+
+  if (dryRun || report.jobs.length === 0) return;
+
+  const merge = await mergeIntoCatalog(report.jobs);
+  console.log(`Catalog: ${merge.added} added, ${merge.updated} updated`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});